@@ -0,0 +1,168 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { Config } from "./config";
+import { print, error } from "./src";
+
+// declaring the type of a block of lines in a python file (for ease of use later), the lines are inclusive
+export type Cell = {"start" : number, "end" : number};
+
+// a line that starts a new cell
+const cellMarker:RegExp = /^\s*#\s*%%/;
+
+/**
+ * Gets the cells of a python file, the lines before the first "# %%" are a cell if there are any
+ * @param document : python file to get the cells from
+ * @returns the cells in the order they are in the file
+ */
+export function getCells(document:vscode.TextDocument):Cell[] {
+    let toReturn:Cell[] = [];
+    let start:number = 0;
+    for (let i = 0; i < document.lineCount; i++) {
+        if (cellMarker.test(document.lineAt(i).text) && i > 0) {
+            toReturn.push({"start" : start, "end" : i - 1});
+            start = i;
+        }
+    }
+    toReturn.push({"start" : start, "end" : document.lineCount - 1});
+    return toReturn;
+}
+
+/**
+ * Removes comments and strings from a line of python so that only code is left
+ * @param line : line of python
+ * @returns the line without comments and strings
+ */
+function stripLine(line:string):string {
+    return line.replace(/("""|''')[\s\S]*?\1|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/g, "\"\"").replace(/#.*$/, "");
+}
+
+/**
+ * Gets the names a block of python defines or changes, this is a guess from the text and not a real parse of python
+ * @param lines : the lines of python
+ * @returns the names that are assigned, imported, defined, or have a method called on them
+ */
+function getDefinedNames(lines:string[]):Set<string> {
+    let toReturn:Set<string> = new Set<string>();
+    let addAll = (text:string) => { for (let name of text.match(/[A-Za-z_]\w*/g) ?? []) { toReturn.add(name); } };
+    for (let line of lines.map(stripLine)) {
+        let match:RegExpMatchArray|null;
+        // imports, the name used in the file is the one after "as" or the first part of a dotted name
+        if ((match = line.match(/^\s*(?:from\s+\S+\s+)?import\s+(.+)$/)) !== null) {
+            for (let part of match[1].replace(/[()]/g, "").split(",")) {
+                let words:string[] = part.trim().split(/\s+/);
+                if (words[0].length) { toReturn.add(words[words.length - 1].split(".")[0]); }
+            }
+        // functions and classes
+        } else if ((match = line.match(/^\s*(?:async\s+)?(?:def|class)\s+(\w+)/)) !== null) {
+            toReturn.add(match[1]);
+        // loop variables and context managers
+        } else if ((match = line.match(/^\s*for\s+(.+?)\s+in\s/)) !== null || (match = line.match(/^\s*with\s.*\sas\s+(.+?):/)) !== null) {
+            addAll(match[1]);
+        // assignments, including augmented ones like "+="
+        } else if ((match = line.match(/^\s*([\w\s,.*[\]]+?)\s*(?:\*\*|\/\/|>>|<<|[-+*/%&|^@])?=(?!=)/)) !== null) {
+            addAll(match[1]);
+        // method calls change the object they are called on, like "qc.h(0)"
+        } else if ((match = line.match(/^\s*([A-Za-z_]\w*)\s*\./)) !== null) {
+            toReturn.add(match[1]);
+        }
+    }
+    return toReturn;
+}
+
+/**
+ * Gets the names a block of python uses
+ * @param lines : the lines of python
+ * @returns every name in the code of the lines
+ */
+function getUsedNames(lines:string[]):Set<string> {
+    return new Set<string>(lines.map(stripLine).join("\n").match(/[A-Za-z_]\w*/g) ?? []);
+}
+
+/**
+ * Gets the lines of a document
+ * @param document : document to get the lines from
+ * @param cell : which lines to get
+ * @returns the text of the lines
+ */
+function getLines(document:vscode.TextDocument, cell:Cell):string[] {
+    let toReturn:string[] = [];
+    for (let i = cell.start; i <= cell.end; i++) { toReturn.push(document.lineAt(i).text); }
+    return toReturn;
+}
+
+/**
+ * Writes a python file that runs the target lines and the earlier cells they depend on, lines that are not run are
+ * left blank so the line numbers in errors match the original file
+ * @param config : configuration of the extension
+ * @param document : the python file the lines are from
+ * @param target : the lines to run
+ * @returns path of the file that was written
+ */
+export async function writeCellFile(config:Config, document:vscode.TextDocument, target:Cell):Promise<string> {
+    let output:string[] = new Array<string>(document.lineCount).fill("");
+    let targetLines:string[] = getLines(document, target);
+    // removing indentation shared by all of the target lines so a selection inside a block can run
+    let indent:number = Math.min(...targetLines.filter((line) => line.trim().length && !(line.trim().startsWith("#"))).map((line) => line.search(/\S/)), Infinity);
+    if (indent === Infinity) { indent = 0; }
+    targetLines.forEach((line, i) => { output[target.start + i] = line.slice(Math.min(indent, line.search(/\S|$/))); });
+
+    // going back through the earlier cells and adding the ones that define something that is needed
+    let needed:Set<string> = getUsedNames(targetLines);
+    let cells:Cell[] = getCells(document).filter((cell) => cell.start < target.start).map((cell) => {
+        return {"start" : cell.start, "end" : Math.min(cell.end, target.start - 1)};
+    });
+    for (let cell of cells.reverse()) {
+        let lines:string[] = getLines(document, cell);
+        if (Array.from(getDefinedNames(lines)).some((name) => needed.has(name))) {
+            print(`running lines ${cell.start+1} to ${cell.end+1} because the target lines depend on them`);
+            lines.forEach((line, i) => { output[cell.start + i] = line; });
+            getUsedNames(lines).forEach((name) => needed.add(name));
+        }
+    }
+
+    print(`Writing lines ${target.start+1} to ${target.end+1} of "${document.fileName}" to ${config.cellFile}`);
+    try { await fs.promises.writeFile(config.cellFile, output.join("\n")); }
+    catch ( e ) { error(`could not write cell file: ${(e as Error).message}`); }
+    return config.cellFile;
+}
+
+/**
+ * Gets the cell containing a line
+ * @param document : python file
+ * @param line : the line
+ * @returns the cell the line is in
+ */
+export function getCellAt(document:vscode.TextDocument, line:number):Cell {
+    let cells:Cell[] = getCells(document);
+    return cells.find((cell) => cell.start <= line && line <= cell.end) ?? cells[cells.length - 1];
+}
+
+/**
+ * Gets the lines of a selection, a selection that ends at the start of a line does not include that line
+ * @param selection : selection in the editor
+ * @returns the lines of the selection
+ */
+export function getSelectionCell(selection:vscode.Selection):Cell {
+    let end:number = selection.end.line;
+    if (selection.end.character === 0 && end > selection.start.line) { end--; }
+    return {"start" : selection.start.line, "end" : end};
+}
+
+/**
+ * Provides the "Run cell in UC Quantum Lab" actions above each "# %%" in python files
+ */
+export class CellCodeLensProvider implements vscode.CodeLensProvider {
+    provideCodeLenses(document:vscode.TextDocument):vscode.CodeLens[] {
+        let toReturn:vscode.CodeLens[] = [];
+        for (let i = 0; i < document.lineCount; i++) {
+            if (cellMarker.test(document.lineAt(i).text)) {
+                toReturn.push(new vscode.CodeLens(new vscode.Range(i, 0, i, 0), {
+                    title : "Run cell in UC Quantum Lab",
+                    command : "uc-quantum-lab.runCell",
+                    arguments : [i]
+                }));
+            }
+        }
+        return toReturn;
+    }
+}
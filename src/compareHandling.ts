@@ -0,0 +1,147 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { Config } from "./config";
+import { Counts } from "./triggerHandling";
+import { RunRecord, describeRun } from "./historyHandling";
+import { print, error, escapeHtml } from "./src";
+
+// declaring the type of a probability distribution (for ease of use later)
+type Distribution = {[bitstring:string] : number};
+
+// colors of the bars of the first and second run
+const colors:string[] = ["var(--vscode-charts-blue)", "var(--vscode-charts-orange)"];
+
+/**
+ * Turns measurement counts into a probability distribution
+ * @param counts : measurement counts
+ * @returns the probability of each bitstring
+ */
+export function toDistribution(counts:Counts):Distribution {
+    let total:number = Object.values(counts).reduce((sum, val) => sum + val, 0);
+    let toReturn:Distribution = {};
+    for (let key in counts) { toReturn[key] = total > 0 ? counts[key]/total : 0; }
+    return toReturn;
+}
+
+/**
+ * Gets every bitstring in the inputted distributions, sorted
+ * @param p : first distribution
+ * @param q : second distribution
+ * @returns the sorted bitstrings
+ */
+function getBitstrings(p:Distribution, q:Distribution):string[] {
+    return Array.from(new Set<string>(Object.keys(p).concat(Object.keys(q)))).sort();
+}
+
+/**
+ * Computes the total variation distance between two distributions
+ * @param p : first distribution
+ * @param q : second distribution
+ * @returns the distance, 0 means the distributions are the same and 1 means they do not overlap
+ */
+export function totalVariationDistance(p:Distribution, q:Distribution):number {
+    let toReturn:number = 0;
+    for (let key of getBitstrings(p, q)) { toReturn += Math.abs((p[key] ?? 0) - (q[key] ?? 0)); }
+    return toReturn/2;
+}
+
+/**
+ * Computes the hellinger fidelity between two distributions (same as qiskit's hellinger_fidelity)
+ * @param p : first distribution
+ * @param q : second distribution
+ * @returns the fidelity, 1 means the distributions are the same and 0 means they do not overlap
+ */
+export function hellingerFidelity(p:Distribution, q:Distribution):number {
+    let overlap:number = 0;
+    for (let key of getBitstrings(p, q)) { overlap += Math.sqrt((p[key] ?? 0)*(q[key] ?? 0)); }
+    return overlap**2;
+}
+
+/**
+ * Makes html for a bar chart that shows the two distributions next to each other for each bitstring
+ * @param p : first distribution
+ * @param q : second distribution
+ * @param labels : names of the two distributions
+ * @returns html of the chart
+ */
+function chartHtml(p:Distribution, q:Distribution, labels:string[]):string {
+    let bitstrings:string[] = getBitstrings(p, q);
+    let max:number = Math.max(...bitstrings.map((key) => Math.max(p[key] ?? 0, q[key] ?? 0)), Number.EPSILON);
+    let legend:string = labels.map((label, i) =>
+        `<span style="margin-right:20px;"><span style="display:inline-block;width:12px;height:12px;margin-right:5px;background-color:${colors[i]};"></span>${escapeHtml(label)}</span>`
+    ).join("");
+    let bars:string = bitstrings.map((key) => {
+        let pair:string = [p, q].map((dist, i) =>
+            `<div title="${escapeHtml(labels[i])}: ${(dist[key] ?? 0).toFixed(4)}" style="width:40%;height:${100*(dist[key] ?? 0)/max}%;background-color:${colors[i]};"></div>`
+        ).join("");
+        return `<div style="display:flex;flex-direction:column;align-items:center;flex:1;height:100%;min-width:0;">` +
+               `<div style="display:flex;align-items:flex-end;justify-content:center;gap:2px;width:100%;flex:1;">${pair}</div>` +
+               `<span style="font-family:var(--vscode-editor-font-family);">${escapeHtml(key)}</span></div>`;
+    }).join("");
+    return `<div style="height:100%;display:flex;flex-direction:column;"><div style="margin-bottom:10px;">${legend}</div>` +
+           `<div style="display:flex;align-items:flex-end;gap:8px;flex:1;">${bars}</div></div>`;
+}
+
+/**
+ * Makes html for a table of the distance metrics between two sets of counts
+ * @param a : first counts
+ * @param b : second counts
+ * @param labels : names of the two counts
+ * @returns html of the table
+ */
+function metricsHtml(a:Counts, b:Counts, labels:string[]):string {
+    let p:Distribution = toDistribution(a);
+    let q:Distribution = toDistribution(b);
+    let rows:string[][] = [
+        ["Total variation distance", totalVariationDistance(p, q).toFixed(4)],
+        ["Hellinger fidelity", hellingerFidelity(p, q).toFixed(4)],
+        [`Shots (${labels[0]})`, Object.values(a).reduce((sum, val) => sum + val, 0).toString()],
+        [`Shots (${labels[1]})`, Object.values(b).reduce((sum, val) => sum + val, 0).toString()]
+    ];
+    return `<table style="border-collapse:collapse;">` + rows.map((row) =>
+        `<tr><td style="padding:4px 20px 4px 0;">${escapeHtml(row[0])}</td><td style="font-family:var(--vscode-editor-font-family);">${row[1]}</td></tr>`
+    ).join("") + `</table>`;
+}
+
+/**
+ * Has the user choose which counts of a run to compare if the run has more than one
+ * @param record : the recorded run
+ * @returns the chosen counts
+ */
+async function pickCounts(record:RunRecord):Promise<Counts> {
+    let counts:Counts[] = record.trigger.counts ?? [];
+    if (!(counts.length)) {
+        error(`The run from ${describeRun(record)} has no measurement counts to compare`);
+    }
+    if (counts.length === 1) { return counts[0]; }
+    let arr:vscode.QuickPickItem[] = counts.map((val, i) => {
+        return { label : `counts ${i+1}`, detail : `${Object.keys(val).length} bitstrings` };
+    });
+    let result:vscode.QuickPickItem|undefined = await vscode.window.showQuickPick(arr, { title : `Choose the counts to compare from ${describeRun(record)}` });
+    if (result === undefined) {
+        error("invalid selection for counts to compare");
+    }
+    return counts[arr.indexOf(result as vscode.QuickPickItem)];
+}
+
+/**
+ * Writes a layout that compares the measurement counts of two recorded runs to the compare layout file
+ * @param config : configuration of the extension
+ * @param before : the first run
+ * @param after : the second run
+ * @returns path to the layout file
+ */
+export async function makeCompareLayout(config:Config, before:RunRecord, after:RunRecord):Promise<string> {
+    let a:Counts = await pickCounts(before);
+    let b:Counts = await pickCounts(after);
+    let labels:string[] = [`before: ${describeRun(before)}`, `after: ${describeRun(after)}`];
+    // the layout uses the same format as the layout file made by the python module
+    let layout = {
+        "top" : {"only" : chartHtml(toDistribution(a), toDistribution(b), labels), "style" : "size:0.75;"},
+        "bottom" : metricsHtml(a, b, labels)
+    };
+    print(`Writing compare layout to ${config.compareLayoutFile}`);
+    try { await fs.promises.writeFile(config.compareLayoutFile, JSON.stringify(layout, null, 4)); }
+    catch ( e ) { error(`could not write compare layout: ${(e as Error).message}`); }
+    return config.compareLayoutFile;
+}
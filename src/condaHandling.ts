@@ -1,83 +1,203 @@
-import * as os from "os";
-import * as path from "path";
-import * as fs from "fs";
-import { print, error, tryCommand, getOutputOfCommand, InfoType } from "./src";
-/**
- * Checks if conda is installed on the user's machine
- * @returns a boolean indicating if conda is install on the user's machine
- */
-export async function checkIfCondaInstalled():Promise<boolean> {
-    if (fs.existsSync(path.join(os.homedir(), "anaconda3")) || await tryCommand("conda --version")) { return true; }
-    return false;
-}
-
-/**
- * Gets a dictionary containing information on the user's conda envs
- * @returns Dictionary of infoType type that contains information on the conda envs on the user machine
- */
-export async function getCondaEnvs():Promise<InfoType>{
-    let toReturn:InfoType = {};
-    let connector:string = "";
-    // if there is a conda dir
-    if (fs.existsSync(path.join(os.homedir(), "anaconda3"))) {
-        print(`Detected conda at: ${path.join(os.homedir(), "anaconda3")}`);
-        let p:string = path.join(os.homedir(), "anaconda3", "envs");
-        // going through the lsit of envs
-        for( const entry of await fs.promises.readdir(p) ) {
-            // Get the full paths
-            if ((await fs.promises.stat(path.join(p, entry))).isDirectory()) {
-                connector = "";
-                // if on windows (eww)
-                if (os.platform() === "win32") {
-                    toReturn[entry] = {
-                        "path" : path.join(p, entry), 
-                        "exe" : path.join(p, entry, "python.exe"),
-                        "pip" : `${path.join(p, entry, "python.exe")} ${path.join(p, entry, "Lib", "site-packages", "pip", "__pip-runner__.py")}`,
-                        "hasQiskit" : false
-                    };
-                    if (!(fs.existsSync(path.join(p, entry, "Lib", "site-packages", "pip", "__pip-runner__.py")))) {
-                        error(`Detected pip exe "${path.join(p, entry, "Lib", "site-packages", "pip", "__pip-runner__.py")}" does not exist`);
-                    }
-                // if anything but windows (yay!)
-                } else {
-                    toReturn[entry] = {
-                        "path" : path.join(p, entry), 
-                        "exe" : path.join(p, entry, "bin", "python"),
-                        "pip" : path.join(p, entry, "bin", "pip"),
-                        "hasQiskit" : false
-                    };
-                }
-                // seeing if the python interpreter has the qiskit module installed
-                if (await tryCommand(`${toReturn[entry]["exe"]} -c "import qiskit"`)) {
-                    toReturn[entry]["hasQiskit"] = true;
-                }
-                // checking if the python exe exists
-                if (!(fs.existsSync(toReturn[entry]["exe"]))) {
-                    error(`Detected python exe "${toReturn[entry]["exe"]}" does not exist`);
-                }
-            }
-        }
-    // if the dir does not exist try to execute the command
-    } else if (await tryCommand("conda --version")) {
-        let toReturn:InfoType = {};
-        print("Detected conda command on system (no conda install directory found)");
-    
-        // reading the available conda envs
-        let command:string = "conda env list";
-        let output:string = await getOutputOfCommand(command);
-        
-        // if something was returned from the env list command
-        if (output.length) {
-            // parsing the output of the env list command
-            let arr:string[] = output.split("\n");
-            for (let val of arr.slice(2, arr.indexOf(""))) {
-                let newSplit = val.replace(/\s+/, " ").split(" ");
-                toReturn[newSplit[0]] = {"path" : newSplit[1], "exe" : `${newSplit[1]}${path.sep}bin${path.sep}python`, "pip" : `${newSplit[1]}${path.sep}bin${path.sep}pip`, "hasQiskit" : false};
-                if (await tryCommand(`${toReturn[newSplit[0]]["exe"]} -c "import qiskit"`)) {
-                    toReturn[newSplit[0]]["hasQiskit"] = true;
-                }
-            }
-        }
-    } else { error("could not find anaconda on the system"); }
-    return toReturn;
-}
\ No newline at end of file
+import * as vscode from "vscode";
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs";
+import { print, error, out, InfoType, InfoInnerType } from "./src";
+import { runProcess, runCommand, succeeded, describeFailure, pipOf, installTimeout, ProcessResult } from "./processHandling";
+import { RequiredPackage } from "./versionHandling";
+
+// directories conda is usually installed in, relative to the home directory and then absolute
+const homeRoots:string[] = ["anaconda3", "miniconda3", "miniforge3", "mambaforge", "micromamba", ".conda"];
+const systemRoots:string[] = os.platform() === "win32" ?
+    ["C:\\ProgramData\\anaconda3", "C:\\ProgramData\\miniconda3", "C:\\ProgramData\\miniforge3", "C:\\ProgramData\\mambaforge"] :
+    ["/opt/conda", "/opt/anaconda3", "/opt/miniconda3", "/opt/miniforge3", "/opt/mambaforge", "/usr/local/anaconda3", "/usr/local/miniconda3"];
+
+/**
+ * Gets the conda install directories that exist on the user's machine
+ * @returns paths of the install directories
+ */
+function getCondaRoots():string[] {
+    let roots:string[] = homeRoots.map((name) => path.join(os.homedir(), name)).concat(systemRoots);
+    // the install conda was activated from
+    if (process.env["CONDA_ROOT"] !== undefined) { roots.unshift(process.env["CONDA_ROOT"]); }
+    return roots.filter((root) => fs.existsSync(path.join(root, "conda-meta")));
+}
+
+/**
+ * Gets the conda (or mamba) executable of a conda install directory
+ * @param root : the install directory
+ * @returns path of the executable, undefined if it has none
+ */
+function getCondaExeOfRoot(root:string):string|undefined {
+    let candidates:string[] = os.platform() === "win32" ?
+        [path.join(root, "Scripts", "conda.exe"), path.join(root, "condabin", "conda.bat"), path.join(root, "Library", "bin", "mamba.exe")] :
+        [path.join(root, "bin", "conda"), path.join(root, "condabin", "conda"), path.join(root, "bin", "mamba")];
+    return candidates.find((candidate) => fs.existsSync(candidate));
+}
+
+/**
+ * Finds a conda (or mamba) command that works, "$CONDA_EXE" and "$MAMBA_EXE" are tried first, then the command on
+ * the path, then the executables in the install directories
+ * @returns the command, undefined if there is none
+ */
+async function findCondaCommand():Promise<string|undefined> {
+    let candidates:string[] = [];
+    for (let variable of ["CONDA_EXE", "MAMBA_EXE"]) {
+        let exe:string|undefined = process.env[variable];
+        if (exe !== undefined && fs.existsSync(exe)) { candidates.push(exe); }
+    }
+    candidates.push("conda", "mamba");
+    for (let root of getCondaRoots()) {
+        let exe:string|undefined = getCondaExeOfRoot(root);
+        if (exe !== undefined) { candidates.push(exe); }
+    }
+    for (let command of candidates) {
+        if (succeeded(await runProcess(command, ["--version"]))) {
+            print(`Detected conda command: ${command}`);
+            return command;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks if conda is installed on the user's machine
+ * @returns a boolean indicating if conda is install on the user's machine
+ */
+export async function checkIfCondaInstalled():Promise<boolean> {
+    if (getCondaRoots().length || await findCondaCommand() !== undefined) { return true; }
+    return false;
+}
+
+/**
+ * Gets the paths of the user's conda envs from "conda env list --json", if there is no conda command that works the
+ * envs are read from the install directories instead
+ * @returns paths of the envs, the base env of each install directory included
+ */
+async function getCondaEnvPaths():Promise<string[]> {
+    let command:string|undefined = await findCondaCommand();
+    if (command !== undefined) {
+        let result:ProcessResult = await runProcess(command, ["env", "list", "--json"]);
+        try {
+            let envs:unknown = JSON.parse(result.stdout)["envs"];
+            if (Array.isArray(envs)) { return envs.filter((env) => typeof env === "string"); }
+            print(`"${command} env list --json" did not list any envs`);
+        } catch ( e ) {
+            print(`could not read the output of "${command} env list --json": ${(e as Error).message}`);
+        }
+    }
+    let toReturn:string[] = [];
+    for (let root of getCondaRoots()) {
+        print(`Reading the conda envs of: ${root}`);
+        toReturn.push(root);
+        let envsDir:string = path.join(root, "envs");
+        if (!(fs.existsSync(envsDir))) { continue; }
+        for (let entry of await fs.promises.readdir(envsDir)) {
+            if ((await fs.promises.stat(path.join(envsDir, entry))).isDirectory()) { toReturn.push(path.join(envsDir, entry)); }
+        }
+    }
+    return toReturn;
+}
+
+/**
+ * Names a conda env the way conda does
+ * @param envPath : path of the env
+ * @returns the name, "base" for the env of an install directory and the path for envs made with "--prefix"
+ */
+function getCondaEnvName(envPath:string):string {
+    if (path.basename(path.dirname(envPath)) === "envs") { return path.basename(envPath); }
+    // an install directory has conda itself in it
+    if (getCondaExeOfRoot(envPath) !== undefined) { return "base"; }
+    return envPath;
+}
+
+/**
+ * Gets the information on a conda env, the python version and whether qiskit is installed are read with one call to
+ * its python, qiskit is looked for instead of imported because importing it is slow
+ * @param envPath : path of the env
+ * @returns the information, undefined if the env has no python in it
+ */
+async function getCondaEnvInfo(envPath:string):Promise<InfoInnerType|undefined> {
+    // if on windows (eww)
+    let exe:string = os.platform() === "win32" ? path.join(envPath, "python.exe") : path.join(envPath, "bin", "python");
+    if (!(fs.existsSync(exe))) {
+        print(`skipping conda env "${envPath}", it has no python in it`);
+        return undefined;
+    }
+    let output:string[] = (await runProcess(exe, ["-c", "import sys, importlib.util; print('.'.join(map(str, sys.version_info[:3]))); print(importlib.util.find_spec('qiskit') is not None)"])).stdout.trim().split(/\r?\n/);
+    return {
+        "path" : envPath,
+        "exe" : exe,
+        "pip" : pipOf(exe),
+        "hasQiskit" : output[1]?.trim() === "True",
+        "version" : output[0]?.trim().length ? output[0].trim() : undefined
+    };
+}
+
+/**
+ * Gets a dictionary containing information on the user's conda envs
+ * @returns Dictionary of infoType type that contains information on the conda envs on the user machine
+ */
+export async function getCondaEnvs():Promise<InfoType>{
+    let envPaths:string[] = await getCondaEnvPaths();
+    if (!(envPaths.length) && !(await checkIfCondaInstalled())) { error("could not find anaconda on the system"); }
+    // the same env can be listed by more than one install
+    envPaths = envPaths.filter((envPath, i) => envPaths.findIndex((other) => path.resolve(other) === path.resolve(envPath)) === i);
+
+    // asking every env at once so the list is ready sooner
+    let infos:(InfoInnerType|undefined)[] = await Promise.all(envPaths.map(getCondaEnvInfo));
+    let toReturn:InfoType = {};
+    infos.forEach((env) => {
+        if (env === undefined) { return; }
+        let name:string = getCondaEnvName(env.path);
+        // envs of different installs can have the same name
+        if (toReturn[name] !== undefined) { name = `${name} (${env.path})`; }
+        print(`Detected conda env "${name}" at ${env.path}`);
+        toReturn[name] = env;
+    });
+    return toReturn;
+}
+
+/**
+ * Makes a conda env with the packages this extension needs installed in it, the output of conda and pip is shown in
+ * the output channel as they run
+ * @param name : name of the new env
+ * @param version : python version of the new env, like "3.10"
+ * @param requiredPackages : the packages to install, in the versions this extension works with
+ * @param pipSourceArgs : pip options that say where to install the packages from
+ * @returns information on the new env
+ */
+export async function createCondaEnv(name:string, version:string, requiredPackages:RequiredPackage[], pipSourceArgs:string[]=[]):Promise<InfoInnerType> {
+    let command:string|undefined = await findCondaCommand();
+    if (command === undefined) {
+        error("could not find a conda command that works, make sure conda is on your path or set $CONDA_EXE");
+    }
+    return await vscode.window.withProgress({
+        location : vscode.ProgressLocation.Notification,
+        title : `Making conda env "${name}"`
+    }, async (progress) => {
+        progress.report({ message : `installing python ${version} (see the UC_Q output for details)` });
+        out.show(true);
+        let made:ProcessResult = await runProcess(command as string, ["create", "-y", "-n", name, `python=${version}`], { timeout : installTimeout, onOutput : (text) => out.append(text) });
+        if (!(succeeded(made))) {
+            error(`could not make conda env "${name}", conda ${describeFailure(made)}`);
+        }
+        // asking conda where it put the env, the envs directory depends on the install and its settings
+        let envPath:string|undefined = (await getCondaEnvPaths()).find((envPath) => getCondaEnvName(envPath) === name);
+        let env:InfoInnerType|undefined = envPath !== undefined ? await getCondaEnvInfo(envPath) : undefined;
+        if (env === undefined) {
+            error(`made conda env "${name}" but could not find its python`);
+        }
+        env = env as InfoInnerType;
+        // installing the versions the interpreter is checked against, so the new env is not flagged right away
+        let specs:string[] = requiredPackages.map((required) => `${required.name}${required.range}`);
+        progress.report({ message : `installing ${requiredPackages.map((required) => required.name).join(", ")}` });
+        let installed:ProcessResult = await runCommand(env.pip, ["install", "--no-warn-script-location"].concat(pipSourceArgs, specs), { timeout : installTimeout, onOutput : (text) => out.append(text) });
+        if (!(succeeded(installed))) {
+            error(`could not install ${specs.join(" ")} in conda env "${name}", pip ${describeFailure(installed)}`);
+        }
+        env.hasQiskit = true;
+        print(`Made conda env "${name}" at ${env.path}`);
+        return env;
+    });
+}
@@ -1,120 +1,205 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import { print, error } from "./src";
+import { print, error, warn, info } from "./src";
+import { RequiredPackage } from "./versionHandling";
+
+// section of the vscode settings of this extension
+export const settingsSection:string = "uc-quantum-lab";
+// name of the config directory if the user has not set one
+const defaultConfigDirName:string = ".UCQ_config";
+
+// declaring the type of a named interpreter profile (for ease of use later)
+export type Profile = {
+    // the python interpreter path or command
+    "python" : string,
+    // pip executable path or command
+    "pip" : string,
+    // environment variables to add to the environment of runs
+    "env"? : {[name:string] : string}
+};
 
 /**
- * Class to store information about the current configuration for the user
+ * Class to store information about the current configuration for the user, this is stored in the vscode settings
+ * and can be set for the user, the workspace, or a workspace folder
  */
 export class UserConfig {
-    // the file where the user configuration is stored
+    // the config file older versions stored the user configuration in, only read to move it into the settings
     userFile:string = "";
+    // the workspace folder the settings are for
+    folder:vscode.WorkspaceFolder|undefined;
     // the python interpreter path or command
     python:string= "";
     // pip executable path or command
     pip:string = "";
+    // seconds to wait for a run to finish, 0 means wait forever
+    timeout:number = 60;
+    // the named interpreter profiles and the name of the one in use, "" if python and pip come from their own settings
+    profiles:{[name:string] : Profile} = {};
+    activeProfile:string = "";
+    // environment variables of the profile in use
+    env:{[name:string] : string} = {};
+    // where pip installs from, an empty index url means the default index
+    pipIndexUrl:string = "";
+    pipExtraIndexUrls:string[] = [];
+    // directory of wheel files to install from, "" for none
+    wheelhouse:string = "";
+    // whether to install only from the wheels shipped with this extension
+    useVendoredWheels:boolean = false;
 
-    // setting the userfile
-    constructor(userConfigFile:string|undefined) {
+    // setting the userfile and the workspace folder
+    constructor(userConfigFile:string|undefined, folder?:vscode.WorkspaceFolder) {
         if (userConfigFile!==undefined) { 
             this.userFile = userConfigFile; 
         }
+        this.folder = folder;
     }
+
     /**
-     * gets the current user config from the user config file and sets attributes of this class
+     * gets the current user config from the settings and sets attributes of this class, use check to make sure
+     * the values are usable
      */
     get() {
-        print(`Loading user config from ${this.userFile}`);
-        // reading the json file
+        print(`Loading user config from the settings of "${this.folder?.name}"`);
+        let settings:vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(settingsSection, this.folder?.uri);
+        this.python = settings.get<string>("python", "");
+        this.pip = settings.get<string>("pip", "");
+        this.timeout = settings.get<number>("timeout", 60);
+        this.profiles = settings.get<{[name:string] : Profile}>("profiles", {});
+        this.activeProfile = settings.get<string>("activeProfile", "");
+        this.pipIndexUrl = settings.get<string>("pipIndexUrl", "").trim();
+        this.pipExtraIndexUrls = settings.get<string[]>("pipExtraIndexUrls", []).map((url) => url.trim()).filter((url) => url.length);
+        // a relative wheelhouse is in the workspace folder
+        this.wheelhouse = settings.get<string>("wheelhouse", "").trim();
+        if (this.wheelhouse.length && !(path.isAbsolute(this.wheelhouse)) && this.folder !== undefined) {
+            this.wheelhouse = path.join(this.folder.uri.fsPath, this.wheelhouse);
+        }
+        this.useVendoredWheels = settings.get<boolean>("useVendoredWheels", false);
+        this.env = {};
+        // the profile in use replaces python and pip, check tells the user if it does not exist
+        let profile:Profile|undefined = this.profiles[this.activeProfile];
+        if (this.activeProfile.length && profile !== undefined) {
+            this.python = profile.python ?? "";
+            this.pip = profile.pip ?? "";
+            this.env = profile.env ?? {};
+        }
+    }
+
+    /**
+     * Describes the interpreter in use for displaying to the user
+     * @returns the name of the profile in use, or the python setting if no profile is in use
+     */
+    describe():string {
+        if (this.activeProfile.length) { return this.profiles[this.activeProfile] === undefined ? `${this.activeProfile} (missing)` : this.activeProfile; }
+        return this.python.length ? this.python : "python not set up";
+    }
+
+    /**
+     * whether python and pip have been set up
+     */
+    isSet():boolean {
+        return this.python.length > 0 && this.pip.length > 0;
+    }
+
+    /**
+     * Checks that the attributes of this class are usable, tells the user which setting is wrong if one is not
+     */
+    check() {
+        if (this.activeProfile.length && this.profiles[this.activeProfile] === undefined) {
+            error(`profile "${this.activeProfile}" from "${settingsSection}.activeProfile" is not in "${settingsSection}.profiles", switch to another profile`);
+        }
+        // if the python interpreter path exists or it is a command, it is ok
+        if (!(this.python.length)) {
+            error(`python is not set up, set "${settingsSection}.python" or run the init command of this extension (uc-quantum-lab.init)`);
+        } else if (!(fs.existsSync(this.python) || this.python.indexOf(path.sep) === -1)) {
+            error(`python path from "${settingsSection}.python" "${this.python}" does not exist`);
+        }
+        /** 
+         * do not need to check if pip path exists (more trouble that is worth)
+         */ 
+        if (!(this.pip.length)) {
+            error(`pip is not set up, set "${settingsSection}.pip" or run the init command of this extension (uc-quantum-lab.init)`);
+        }
+        if (this.wheelhouse.length && !(fs.existsSync(this.wheelhouse))) {
+            error(`wheelhouse from "${settingsSection}.wheelhouse" "${this.wheelhouse}" does not exist`);
+        }
+        if (typeof this.timeout !== "number" || this.timeout < 0) {
+            error(`timeout from "${settingsSection}.timeout" "${this.timeout}" must be a number of seconds (0 for no timeout)`);
+        }
+    }
+
+    /**
+     * Moves the user config file of older versions into the settings, settings the user already set are kept, the
+     * file is renamed so it is only moved once
+     */
+    async migrate() {
+        if (!(fs.existsSync(this.userFile))) { return; }
+        print(`Moving user config from ${this.userFile} into the settings`);
         try {
             let readIn = JSON.parse(fs.readFileSync(this.userFile, "utf8"));
-            // checks python exe read from the file
-            if (readIn["python"] !== undefined) {
-                // if the python interpreter path exists or it is a command, set the attribute
-                if (fs.existsSync(readIn["python"]) || readIn["python"].indexOf(path.sep) === -1) {
-                    this.python = readIn["python"]; 
-                } else {
-                    error(`python path from user config "${readIn["python"]}" does not exist`);
+            let settings:vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(settingsSection, this.folder?.uri);
+            for (let key of ["python", "pip", "timeout"]) {
+                let current = settings.inspect(key);
+                if (readIn[key] !== undefined && current?.workspaceFolderValue === undefined && current?.workspaceValue === undefined) {
+                    await settings.update(key, readIn[key], this._target());
                 }
-            } else { 
-                error(`python was not found in the user config file`);
-            }
-
-            // checks pip exe read from the file
-            if (readIn["pip"] !== undefined) {
-                /** 
-                 * do not need to check if pip path exists (more trouble that is worth)
-                 */ 
-                // if the pip executable path exists or it is a command, set the attribute
-                //if (fs.existsSync(readIn["pip"]) || readIn["pip"].indexOf(path.sep) === -1) { 
-                this.pip = readIn["pip"];
-                // } else {
-                //     this.errorEncountered = true;
-                //     this.errorMessage = `the pip path from user config ${readIn["pip"]} does not exist, config file is ${this.userFile}`;
-                // }
-            } else {
-                error(`pip was not found in the user config file`);
             }
+            await fs.promises.rename(this.userFile, `${this.userFile}.migrated`);
         } catch ( e ) {
-            error(`user config file not found, try running the reinit command of this extension (uc-quantum-lab.reinit) in the command palete`);
+            error(`could not move "${this.userFile}" into the settings, with message ${(e as Error).message}`);
         }
+        info(`Moved the settings in "${this.userFile}" into the "${settingsSection}" settings of "${this.folder?.name}"`);
+        this.get();
     }
 
     /**
-     * takes the attributes of this class and puts them in a dictionary
-     * @returns a dictionary containing the attributes of this class
+     * Saves python and pip to the settings of the workspace folder and stops using a profile, the timeout is only set by the user
      */
-    toDict():{[name:string] : string|boolean} {
-        let toReturn:{[name:string] : string|boolean} = {};
-        toReturn["pip"] = this.pip;
-        toReturn["python"] = this.python;
-        return toReturn;
+    async save() {
+        print(`saving user config to the settings of "${this.folder?.name}"`);
+        let settings:vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(settingsSection, this.folder?.uri);
+        try {
+            await settings.update("python", this.python, this._target());
+            await settings.update("pip", this.pip, this._target());
+            // python and pip were chosen for this workspace, so a profile should not replace them
+            if (this.activeProfile.length) { await settings.update("activeProfile", undefined, this._target()); }
+        } catch ( e ) {
+            error(`could not save user config to the settings, with message ${(e as Error).message}`);
+        }
     }
+
     /**
-     * sets the attributes of this class from the inputted dictionary
-     * @param dict : dictionary that contains information that you want to use to set the attributes of this class
+     * Switches to a profile, use "" to go back to the python and pip settings
+     * @param name : name of the profile
      */
-    setFromDict(dict:{[name:string] : string|boolean}) {
-        // checks python exe
-        if (typeof dict["python"] === "string") {
-            // if the python interpreter path exists or it is a command, set the attribute
-            if (fs.existsSync(dict["python"]) || dict["python"].indexOf(path.sep) === -1) { 
-                this.python = dict["python"]; 
-            } else {
-                error(`python variable from dict "${dict["python"]}" does not exist`);
-            }
-        } else { 
-            error(`python variable must be a string`);
-        }
+    async setActiveProfile(name:string) {
+        print(`switching "${this.folder?.name}" to profile "${name}"`);
+        try { await vscode.workspace.getConfiguration(settingsSection, this.folder?.uri).update("activeProfile", name, this._target()); }
+        catch ( e ) { error(`could not switch profile, with message ${(e as Error).message}`); }
+        this.get();
+    }
 
-        // checks pip exe
-        if (typeof dict["pip"] === "string") {
-            // if the pip exe path exists or it is a command, set the attribute
-            if (fs.existsSync(dict["pip"]) || dict["pip"].indexOf(path.sep) === -1) { 
-                this.python = dict["pip"]; 
-            } else {
-                error(`pip variable from dict "${dict["pip"]}" does not exist`);
-            }
-        } else { 
-            error(`pip variable must be a string`);
-        }
-        // saving this class to the user config file
-        this.save();
+    /**
+     * Adds a profile to the user settings so every workspace can use it
+     * @param name : name of the profile
+     * @param profile : the profile
+     */
+    async addProfile(name:string, profile:Profile) {
+        print(`adding profile "${name}" with "${profile.python}"`);
+        let settings:vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(settingsSection, this.folder?.uri);
+        let profiles:{[name:string] : Profile} = { ...(settings.inspect<{[name:string] : Profile}>("profiles")?.globalValue ?? {}) };
+        profiles[name] = profile;
+        try { await settings.update("profiles", profiles, vscode.ConfigurationTarget.Global); }
+        catch ( e ) { error(`could not add profile, with message ${(e as Error).message}`); }
+        this.get();
     }
+
     /**
-     * Saves this class to the user config file
+     * Gets where to save the settings, the folder settings if there is more than one folder so each folder can use its own python
+     * @returns the settings target
      */
-    save() {
-        print(`saving user config to ${this.userFile}`);
-        // creating config from attributes of this class
-        let config:{[name:string]:string|boolean} = {"python" : this.python, 
-                                                     "pip" : this.pip};
-        // write data to user config file
-        fs.writeFile(this.userFile, JSON.stringify(config, null, 4), err => {
-            if (err) {
-                error(`could not save user config back to file, with message ${err.message}`);
-            }
-        });
+    private _target():vscode.ConfigurationTarget {
+        return (vscode.workspace.workspaceFolders?.length ?? 0) > 1 ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace;
     }
 }
 
@@ -122,18 +207,24 @@ export class UserConfig {
  * Class containing all of the information on the configuration of this extension
  */
 export class Config {
-    // the path of the workspace open in vscode
+    // the path of the workspace folder this configuration is for
     workspacePath:string;
+    // the workspace folder this configuration is for
+    workspaceFolder:vscode.WorkspaceFolder|undefined;
     // path where this extension is installed at
     extensionInstallPath:string;
     // the user config directory
     configDir:string = "";
-    // the user config file
+    // the user config file of older versions, the user config is in the settings now
     configFile:string = "";
     // the file containing the layout of the viewer
     layoutFile:string = "";
     // template config file to load into the user config directory with it is made
     templateLayoutFile:string = "";
+    // python packages the files of the workspace need, installed in the interpreter before runs
+    requirementsFile:string = "";
+    // template requirements file to load into the user config directory when it is made
+    templateRequirementsFile:string = "";
     // example python file to give to the user if they want it
     templatePythonFile:string = "";
     // html format file to load and use as a template for the viewer's html
@@ -146,12 +237,26 @@ export class Config {
     noDataImage:string = "";
     // file made by the python module to trigger this extension
     triggerFile:string = "";
+    // directory holding a copy of the results of every run
+    historyDir:string = "";
+    // layout file made to compare two runs
+    compareLayoutFile:string = "";
+    // python file made to run cells or a selection of a python file
+    cellFile:string = "";
+    // file defining the parameters of a sweep
+    sweepFile:string = "";
+    // layout file made to show the results of a sweep
+    sweepLayoutFile:string = "";
+    // python file made to check that a run makes it back to this extension
+    doctorFile:string = "";
     // css files to include in the compiled html
     cssFiles:string[] = [];
     // java script files to include in the compiled
     scriptFiles:string[] = [];
-    // the minimum allowed version of the python module
-    minPythonModVer:string = "";
+    // directory of the wheels shipped with this extension, installed from when "useVendoredWheels" is on
+    vendoredWheelsDir:string = "";
+    // python packages this extension needs and the versions of them it works with, the python module of this extension is first
+    requiredPackages:RequiredPackage[] = [];
     // minimum allowed version of python
     minPythonVer:string = "";
     // python module name on the python index
@@ -186,33 +291,94 @@ export class Config {
      * constructs the user config class attribute of this class
      */
     initUserConfig() {
-        this.userConfig = new UserConfig(this.configFile);
+        this.userConfig = new UserConfig(this.configFile, this.workspaceFolder);
     }
+
+    /**
+     * Sets the config directory and the paths of the files in it
+     * @param name : name of the config directory in the workspace folder
+     */
+    setConfigDir(name:string) {
+        this.configDir = path.join(this.workspacePath, name);
+        this.configFile = path.join(this.configDir, "config.json"); // needs to be json
+        this.layoutFile =  path.join(this.configDir, "layout.json"); // needs to be json
+        this.triggerFile = path.join(this.configDir, ".trigger");
+        this.historyDir = path.join(this.configDir, "history");
+        this.compareLayoutFile = path.join(this.configDir, "compare.json");
+        this.cellFile = path.join(this.configDir, "cell.py");
+        this.sweepFile = path.join(this.configDir, "sweep.json");
+        this.sweepLayoutFile = path.join(this.configDir, "sweep_layout.json");
+        this.doctorFile = path.join(this.configDir, "doctor.py");
+        this.requirementsFile = path.join(this.configDir, "requirements.txt");
+        this.testCompiledHtmlFile = path.join(this.configDir, "out.html");
+        this.userConfig.userFile = this.configFile;
+    }
+
+    /**
+     * Loads the settings of the workspace folder into this class
+     */
+    loadSettings() {
+        let name:string = vscode.workspace.getConfiguration(settingsSection, this.workspaceFolder?.uri).get<string>("configDirectory", defaultConfigDirName);
+        // the config directory has to be directly in the workspace folder
+        if (!(name.length) || path.basename(name) !== name || name === "..") {
+            warn(`"${settingsSection}.configDirectory" "${name}" must be the name of a directory in the workspace folder, using "${defaultConfigDirName}"`);
+            name = defaultConfigDirName;
+        }
+        if (this.configDir !== path.join(this.workspacePath, name)) { this.setConfigDir(name); }
+        this.userConfig.get();
+    }
+}
+
+/**
+ * Gets the workspace folder to use, this is the folder of the active editor's document, if that does not decide it
+ * and there is more than one folder then the user chooses
+ * @returns the workspace folder to use, undefined if no folder is open
+ */
+export async function getWorkspaceFolder():Promise<vscode.WorkspaceFolder|undefined> {
+    let folders:readonly vscode.WorkspaceFolder[]|undefined = vscode.workspace.workspaceFolders;
+    if (folders === undefined || !(folders.length)) { return undefined; }
+    if (folders.length === 1) { return folders[0]; }
+    // using the folder the active document is in
+    if (vscode.window.activeTextEditor !== undefined) {
+        let folder:vscode.WorkspaceFolder|undefined = vscode.workspace.getWorkspaceFolder(vscode.window.activeTextEditor.document.uri);
+        if (folder !== undefined) { return folder; }
+    }
+    // it is ambiguous, so the user chooses
+    let folder:vscode.WorkspaceFolder|undefined = await vscode.window.showWorkspaceFolderPick({ placeHolder : "Choose the workspace folder to use with UC Quantum Lab" });
+    if (folder === undefined) {
+        error("no workspace folder was chosen");
+    }
+    return folder;
 }
 
+// the configuration of each workspace folder, kept up to date when the settings change
+const configs:Map<string, Config> = new Map<string, Config>();
+
 /**
  * 
  * @param context : context for this extension
+ * @param folder : workspace folder to get the configuration for, decided by getWorkspaceFolder if not provided
  * @returns Config class containing the configuration of this extension
  */
-export async function getConfig(context:vscode.ExtensionContext):Promise<Config> {
-    if (vscode.workspace.workspaceFolders !== undefined) {
+export async function getConfig(context:vscode.ExtensionContext, folder?:vscode.WorkspaceFolder):Promise<Config> {
+    if (folder === undefined) { folder = await getWorkspaceFolder(); }
+    if (folder !== undefined) {
         // if here, then a workspace is open
+        let cached:Config|undefined = configs.get(folder.uri.fsPath);
+        if (cached !== undefined) { return cached; }
         // init the above class
-        let config:Config = new Config(vscode.workspace.workspaceFolders[0].uri.fsPath, context.extensionPath);
+        let config:Config = new Config(folder.uri.fsPath, context.extensionPath);
+        config.workspaceFolder = folder;
         /**
          * For a description of what the attributes do, see the above class definition
          */
-        config.configDir = path.join(config.workspacePath, ".UCQ_config");
-		config.configFile = path.join(config.configDir, "config.json"); // needs to be json
-        config.layoutFile =  path.join(config.configDir, "layout.json"); // needs to be json
-        config.triggerFile = path.join(config.configDir, ".trigger");
         config.templateLayoutFile = path.join(config.extensionInstallPath, "templates", "template_config", "layout.json");
+        config.templateRequirementsFile = path.join(config.extensionInstallPath, "templates", "template_config", "requirements.txt");
         config.templatePythonFile = path.join(config.extensionInstallPath, "templates", "main.py");
         config.noDataImage = path.join(config.extensionInstallPath, "media", "no_img.jpg");
         config.mainHtmlFormatFile = path.join(config.extensionInstallPath, "media", "format.html");
         config.testHtmlFile = path.join(config.extensionInstallPath, "media", "test.html");
-        config.testCompiledHtmlFile = path.join(config.configDir, "out.html");
+        config.vendoredWheelsDir = path.join(config.extensionInstallPath, "wheels");
         config.cssFiles = [
             path.join(config.extensionInstallPath, "media",  "reset.css"), 
             path.join(config.extensionInstallPath, "media", "vscode.css")
@@ -228,15 +394,44 @@ export async function getConfig(context:vscode.ExtensionContext):Promise<Config>
         // python module stuff
         config.pythonModuleName = "UC_Quantum_Lab";
         config.pythonModulePyPi = "U-Cincy-quantum-tools";
-        config.minPythonModVer = "0.1.4";
+        config.requiredPackages = [
+            {"name" : config.pythonModulePyPi, "range" : ">=0.1.4"},
+            {"name" : "qiskit", "range" : ">=0.37"},
+            {"name" : "qiskit-aer", "range" : ">=0.10"},
+            {"name" : "matplotlib", "range" : ">=3.3"}
+        ];
         config.minPythonVer = "3.6.0";
 
-        // initializing user config
+        // initializing user config and the paths in the config directory from the settings
         config.initUserConfig();
+        config.loadSettings();
+        // moving the user config file of older versions into the settings
+        await config.userConfig.migrate();
 
+        configs.set(folder.uri.fsPath, config);
         return config;
     } else {
         // returning a class that has no info
         return new Config(undefined, undefined);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Keeps the configurations of the workspace folders up to date when the settings or the workspace folders change
+ * @returns disposable that stops watching
+ */
+export function watchConfiguration():vscode.Disposable {
+    return vscode.Disposable.from(
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            for (let config of configs.values()) {
+                if (event.affectsConfiguration(settingsSection, config.workspaceFolder?.uri)) {
+                    print(`settings of "${config.workspacePath}" changed, reloading them`);
+                    config.loadSettings();
+                }
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+            for (let folder of event.removed) { configs.delete(folder.uri.fsPath); }
+        })
+    );
+}
@@ -0,0 +1,102 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { Config } from "./config";
+import { print } from "./src";
+
+// the problems of failed runs shown in the editor
+export let diagnostics = vscode.languages.createDiagnosticCollection("uc-quantum-lab");
+
+// declaring the types of a parsed traceback (for ease of use later)
+export type TracebackFrame = {"file" : string, "line" : number, "name" : string};
+export type Traceback = {"frames" : TracebackFrame[], "message" : string};
+
+// a frame of a python traceback, like: File "main.py", line 3, in <module>
+const frameRegex:RegExp = /^\s*File "(.+)", line (\d+)(?:, in (.+))?\s*$/;
+
+/**
+ * Finds the python tracebacks in some text, like the stderr of a run
+ * @param text : text with the tracebacks in it
+ * @returns the tracebacks in the order they are in the text
+ */
+export function parseTracebacks(text:string):Traceback[] {
+    let toReturn:Traceback[] = [];
+    let current:Traceback|undefined;
+    for (let line of text.split(/\r?\n/)) {
+        let match:RegExpMatchArray|null = line.match(frameRegex);
+        if (line.startsWith("Traceback (most recent call last):")) {
+            current = {"frames" : [], "message" : ""};
+        } else if (match !== null) {
+            // syntax errors have a frame without a traceback header
+            if (current === undefined) { current = {"frames" : [], "message" : ""}; }
+            current.frames.push({"file" : match[1], "line" : +match[2], "name" : match[3] ?? ""});
+        } else if (current !== undefined && current.frames.length && line.length && !(/^\s/.test(line))) {
+            // the first line that is not indented after the frames is the exception
+            current.message = line.trim();
+            toReturn.push(current);
+            current = undefined;
+        }
+    }
+    return toReturn;
+}
+
+/**
+ * Makes the range of a line of a file, from the first character that is not whitespace to the end
+ * @param file : the file
+ * @param line : line number starting at 1
+ * @returns the range
+ */
+function getLineRange(file:string, line:number):vscode.Range {
+    try {
+        let text:string|undefined = fs.readFileSync(file).toString().split(/\r?\n/)[line - 1];
+        if (text !== undefined) {
+            return new vscode.Range(line - 1, Math.max(text.search(/\S/), 0), line - 1, text.length);
+        }
+    } catch ( e ) {
+        print(`could not read "${file}" to find the range of line ${line}`);
+    }
+    return new vscode.Range(line - 1, 0, line - 1, 0);
+}
+
+/**
+ * Shows the tracebacks in some text as problems in the editor, errors raised inside the python module of this
+ * extension are shown where the user's code called it
+ * @param config : configuration of the extension
+ * @param text : text with the tracebacks in it
+ * @param mapFile : changes a file in a traceback to the file to show the problem in, used when a generated file was run
+ */
+export function reportTracebacks(config:Config, text:string, mapFile:(file:string) => string = (file) => file) {
+    diagnostics.clear();
+    let found:Map<string, vscode.Diagnostic[]> = new Map<string, vscode.Diagnostic[]>();
+    for (let traceback of parseTracebacks(text)) {
+        let frames:TracebackFrame[] = traceback.frames.filter((frame) => !(frame.file.startsWith("<")))
+                                                      .map((frame) => { return { ...frame, "file" : mapFile(path.resolve(config.workspacePath, frame.file)) }; });
+        if (!(frames.length)) { continue; }
+        let raised:TracebackFrame = frames[frames.length - 1];
+        // the last frame that is the user's code and not a library
+        let isLibrary = (frame:TracebackFrame) => frame.file.split(/[\\/]/).some((part) => part === config.pythonModuleName || part === "site-packages" || part === "dist-packages");
+        let reported:TracebackFrame = frames.slice().reverse().find((frame) => !(isLibrary(frame))) ?? raised;
+
+        let diagnostic:vscode.Diagnostic = new vscode.Diagnostic(
+            getLineRange(reported.file, reported.line),
+            reported === raised ? traceback.message : `${traceback.message} (raised in "${raised.name}" called from here)`,
+            vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = "UC Quantum Lab";
+        if (reported !== raised) {
+            diagnostic.relatedInformation = [new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(vscode.Uri.file(raised.file), getLineRange(raised.file, raised.line)), "error raised here"
+            )];
+        }
+        print(`reporting "${traceback.message}" at line ${reported.line} of "${reported.file}"`);
+        found.set(reported.file, (found.get(reported.file) ?? []).concat([diagnostic]));
+    }
+    for (let [file, list] of found) { diagnostics.set(vscode.Uri.file(file), list); }
+}
+
+/**
+ * Removes the problems of the last failed run from the editor
+ */
+export function clearDiagnostics() {
+    diagnostics.clear();
+}
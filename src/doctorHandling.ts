@@ -0,0 +1,301 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs";
+import { Config } from "./config";
+import { setupPython, pipInstall, pipUpdate, getPipSourceArgs } from "./pythonHandling";
+import { satisfies, checkRequiredPackage } from "./versionHandling";
+import { getLayoutDiagnostics } from "./layoutHandling";
+import { runPythonFileAndWait, RunOutcome } from "./runHandling";
+import { readTriggerFile, TriggerMessage } from "./triggerHandling";
+import { RunManager } from "./queueHandling";
+import { print, info, out, mkDir } from "./src";
+import { runCommand, succeeded, describeFailure, installTimeout, ProcessResult } from "./processHandling";
+
+// declaring the types of the result of a check and what the python probe reports (for ease of use later)
+export type DoctorStatus = "pass" | "fail" | "skip";
+export type DoctorCheck = {
+    "name" : string,
+    "status" : DoctorStatus,
+    // what was found, shown next to the name
+    "detail" : string,
+    // fixes the problem, only failed checks have one and some problems can only be fixed by the user
+    "fix"? : {"label" : string, "run" : () => Promise<void>}
+};
+type ProbeResult = {"python" : string, "packages" : {[name:string] : string|null}};
+
+// prints the python version and the installed version of each package named in the arguments as json, works back to
+// python 3.6 where importlib.metadata does not exist yet
+const probeScript:string = `import sys, json
+try:
+    from importlib.metadata import version
+except ImportError:
+    from pkg_resources import get_distribution
+    version = lambda name: get_distribution(name).version
+def get(name):
+    try:
+        return version(name)
+    except Exception:
+        return None
+print(json.dumps({"python": ".".join(map(str, sys.version_info[:3])), "packages": {name: get(name) for name in sys.argv[1:]}}))
+`;
+
+/**
+ * Makes the python file that checks a run makes it back to this extension, it measures a qubit flipped to 1
+ * @param config : configuration of the extension
+ * @returns the python source
+ */
+function makeRoundTripScript(config:Config):string {
+    return `from qiskit import QuantumCircuit
+from ${config.pythonModuleName}.commands import counts
+qc = QuantumCircuit(1, 1)
+qc.x(0)
+qc.measure(0, 0)
+counts(qc)
+`;
+}
+
+/**
+ * Asks the python interpreter for its version and the versions of the packages this extension needs
+ * @param config : configuration of the extension
+ * @returns what python reported, undefined if the interpreter could not be run
+ */
+async function probePython(config:Config):Promise<ProbeResult|undefined> {
+    let probeFile:string = path.join(os.tmpdir(), `ucq_doctor_${process.pid}.py`);
+    try {
+        await fs.promises.writeFile(probeFile, probeScript);
+        let result:ProcessResult = await runCommand(config.userConfig.python, [probeFile].concat(config.requiredPackages.map((required) => required.name)));
+        if (!(succeeded(result))) { throw new Error(describeFailure(result)); }
+        return JSON.parse(result.stdout.trim().split(/\r?\n/).pop() ?? "");
+    } catch ( e ) {
+        print(`could not read the versions from "${config.userConfig.python}": ${(e as Error).message}`);
+        return undefined;
+    } finally {
+        await fs.promises.rm(probeFile, { force : true });
+    }
+}
+
+/**
+ * Runs a small circuit through the python module and reads the trigger file it makes, the layout file is put back
+ * afterwards so the viewer still shows the last real run
+ * @param config : configuration of the extension
+ * @param token : stops the run when cancelled
+ * @returns the check
+ */
+async function checkRoundTrip(config:Config, token:vscode.CancellationToken):Promise<DoctorCheck> {
+    let name:string = "Run round trip";
+    let layout:Buffer|undefined = fs.existsSync(config.layoutFile) ? await fs.promises.readFile(config.layoutFile) : undefined;
+    try {
+        await fs.promises.writeFile(config.doctorFile, makeRoundTripScript(config));
+        let outcome:RunOutcome = await runPythonFileAndWait(config, config.doctorFile, token);
+        if (outcome.trigger !== "found") {
+            let lastError:string|undefined = outcome.result.stderr.trim().split(/\r?\n/).pop();
+            return {"name" : name, "status" : "fail", "detail" : `the trigger file was not made (${outcome.trigger}), python exited with ${outcome.result.code ?? outcome.result.signal}${lastError?.length ? `: ${lastError}` : ""}`};
+        }
+        let message:TriggerMessage = await readTriggerFile(config, config.doctorFile);
+        if (message.status === "error") {
+            return {"name" : name, "status" : "fail", "detail" : `the run failed with ${message.error?.type}: ${message.error?.message}`};
+        }
+        if (message.version === 0) {
+            return {"name" : name, "status" : "pass", "detail" : "the run made it back, the python module is too old to send its results"};
+        }
+        // the circuit always measures 1
+        let counts = message.counts?.[0];
+        if (counts === undefined || Object.keys(counts).some((bitstring) => bitstring !== "1")) {
+            return {"name" : name, "status" : "fail", "detail" : `expected only "1" to be measured but got ${JSON.stringify(counts)}`};
+        }
+        return {"name" : name, "status" : "pass", "detail" : `the run made it back in ${(message.end - message.start).toFixed(2)}s with the expected counts`};
+    } catch ( e ) {
+        return {"name" : name, "status" : "fail", "detail" : (e as Error).message};
+    } finally {
+        await fs.promises.rm(config.doctorFile, { force : true });
+        // the round trip makes a layout, it is removed if there was none before
+        if (layout !== undefined) { await fs.promises.writeFile(config.layoutFile, layout); }
+        else { await fs.promises.rm(config.layoutFile, { force : true }); }
+    }
+}
+
+/**
+ * Checks everything this extension needs to run a python file, later checks are skipped if what they need failed
+ * @param config : configuration of the extension
+ * @param report : shows which check is going
+ * @returns the checks in the order they were done
+ */
+export async function runDoctor(config:Config, report:(message:string) => void = () => {}):Promise<DoctorCheck[]> {
+    let toReturn:DoctorCheck[] = [];
+    let add = (check:DoctorCheck) => {
+        print(`doctor: ${check.name} ${check.status}, ${check.detail}`);
+        toReturn.push(check);
+    };
+    // sets python up again and saves it, the fix for a broken interpreter
+    let resetPython = {"label" : "Set up python again", "run" : async () => {
+        await setupPython(config);
+        await config.userConfig.save();
+    }};
+
+    // the interpreter and the versions of the packages
+    report("python");
+    let probe:ProbeResult|undefined = config.userConfig.isSet() ? await probePython(config) : undefined;
+    if (!(config.userConfig.isSet())) {
+        add({"name" : "Python interpreter", "status" : "fail", "detail" : "python is not set up", "fix" : resetPython});
+    } else if (probe === undefined) {
+        add({"name" : "Python interpreter", "status" : "fail", "detail" : `"${config.userConfig.python}" could not be run`, "fix" : resetPython});
+    } else if (!(satisfies(probe.python, `>=${config.minPythonVer}`))) {
+        add({"name" : "Python interpreter", "status" : "fail", "detail" : `python ${probe.python} at "${config.userConfig.python}" is older than ${config.minPythonVer}`, "fix" : resetPython});
+    } else {
+        add({"name" : "Python interpreter", "status" : "pass", "detail" : `python ${probe.python} at "${config.userConfig.python}"`});
+    }
+
+    report("pip");
+    if (probe === undefined) {
+        add({"name" : "pip", "status" : "skip", "detail" : "needs a python interpreter that works"});
+    } else {
+        let pip:ProcessResult = await runCommand(config.userConfig.pip, ["--version"]);
+        if (succeeded(pip)) {
+            add({"name" : "pip", "status" : "pass", "detail" : pip.stdout.trim()});
+        } else {
+            add({"name" : "pip", "status" : "fail", "detail" : `"${config.userConfig.pip} --version" ${describeFailure(pip)}`, "fix" : {"label" : "Install pip with ensurepip", "run" : async () => {
+                out.show(true);
+                let result:ProcessResult = await runCommand(config.userConfig.python, ["-m", "ensurepip", "--upgrade"], { timeout : installTimeout, onOutput : (text) => out.append(text) });
+                if (!(succeeded(result))) { info(`could not install pip, ensurepip ${describeFailure(result)}`); }
+            }}});
+        }
+    }
+    let pipWorks:boolean = toReturn[toReturn.length-1].status === "pass";
+
+    report("python packages");
+    for (let required of config.requiredPackages) {
+        let version:string|null|undefined = probe?.packages[required.name];
+        let checkName:string = required.name === config.pythonModulePyPi ? `${config.pythonModuleName} (${required.name})` : required.name;
+        let problem = checkRequiredPackage(required, version ?? undefined);
+        if (probe === undefined || !(pipWorks)) {
+            add({"name" : checkName, "status" : "skip", "detail" : "needs python and pip that work"});
+        } else if (problem !== undefined) {
+            let label:string = {"missing" : "Install", "old" : "Update", "new" : "Install a supported version of"}[problem.problem];
+            add({"name" : checkName, "status" : "fail", "detail" : problem.message, "fix" : {"label" : `${label} ${required.name}`, "run" : async () => {
+                let result:ProcessResult = await pipInstall(config.userConfig.pip, [`${required.name}${required.range}`], getPipSourceArgs(config));
+                if (!(succeeded(result))) { info(`could not install ${required.name}${required.range}, pip ${describeFailure(result)}`); }
+            }}});
+        } else {
+            add({"name" : checkName, "status" : "pass", "detail" : `${version} (works with ${required.range})`});
+        }
+    }
+
+    // the python module writes its results to the config directory
+    report("config directory");
+    let writable:boolean = false;
+    if (!(fs.existsSync(config.configDir))) {
+        add({"name" : "Config directory", "status" : "fail", "detail" : `"${config.configDir}" does not exist`, "fix" : {"label" : `Make "${path.basename(config.configDir)}"`, "run" : async () => await mkDir(config.configDir)}});
+    } else {
+        let testFile:string = path.join(config.configDir, `.doctor_${process.pid}`);
+        try {
+            await fs.promises.writeFile(testFile, "");
+            await fs.promises.rm(testFile);
+            writable = true;
+            add({"name" : "Config directory", "status" : "pass", "detail" : `"${config.configDir}" is writable`});
+        } catch ( e ) {
+            // permissions have to be fixed by the user
+            add({"name" : "Config directory", "status" : "fail", "detail" : `"${config.configDir}" is not writable: ${(e as Error).message}`});
+        }
+    }
+
+    report("layout");
+    if (!(fs.existsSync(config.layoutFile))) {
+        add({"name" : "Layout", "status" : "pass", "detail" : "there is no layout yet, the next run makes one"});
+    } else {
+        let problems:vscode.Diagnostic[] = getLayoutDiagnostics((await fs.promises.readFile(config.layoutFile)).toString())
+            .filter((diagnostic) => diagnostic.severity === vscode.DiagnosticSeverity.Error);
+        if (problems.length) {
+            add({"name" : "Layout", "status" : "fail", "detail" : `${problems.length} problem(s), the first is: ${problems[0].message}`, "fix" : {"label" : "Open the layout to see the problems", "run" : async () => {
+                await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(config.layoutFile));
+            }}});
+        } else {
+            add({"name" : "Layout", "status" : "pass", "detail" : `"${config.layoutFile}" is valid`});
+        }
+    }
+
+    // a run has to wait its turn like any other run so it does not race on the trigger file
+    report("round trip");
+    let manager:RunManager = RunManager.get(config);
+    if (toReturn.some((check) => check.status !== "pass" && check.name !== "Layout") || !(writable)) {
+        add({"name" : "Run round trip", "status" : "skip", "detail" : "needs every check above to pass"});
+    } else if (manager.busy) {
+        add({"name" : "Run round trip", "status" : "skip", "detail" : "a run is going, run the doctor again when it is done"});
+    } else {
+        let check:DoctorCheck = {"name" : "Run round trip", "status" : "skip", "detail" : "the run was stopped"};
+        await manager.request({
+            "name" : "doctor round trip",
+            "task" : async (token) => { check = await checkRoundTrip(config, token); }
+        });
+        if (check.status === "fail") {
+            check.fix = {"label" : `Reinstall ${config.pythonModulePyPi}`, "run" : async () => {
+                let result:ProcessResult = await pipUpdate(config.userConfig.pip, ["--force-reinstall", config.pythonModulePyPi], getPipSourceArgs(config));
+                if (!(succeeded(result))) { info(`could not reinstall ${config.pythonModulePyPi}, pip ${describeFailure(result)}`); }
+            }};
+        }
+        add(check);
+    }
+    return toReturn;
+}
+
+/**
+ * Makes a markdown report of the checks
+ * @param config : configuration of the extension
+ * @param checks : the checks
+ * @returns the report
+ */
+export function formatDoctorReport(config:Config, checks:DoctorCheck[]):string {
+    let icons:{[status in DoctorStatus] : string} = {"pass" : "✅", "fail" : "❌", "skip" : "➖"};
+    let lines:string[] = [
+        `# UC Quantum Lab doctor report`,
+        ``,
+        `Workspace folder: \`${config.workspacePath}\`  `,
+        `Profile: ${config.userConfig.describe()}  `,
+        `Checked: ${new Date().toLocaleString()}`,
+        ``,
+        `| | Check | Result |`,
+        `|---|---|---|`
+    ];
+    for (let check of checks) {
+        lines.push(`| ${icons[check.status]} | ${check.name} | ${check.detail.replace(/\|/g, "\\|").replace(/\r?\n/g, " ")} |`);
+    }
+    let failed:DoctorCheck[] = checks.filter((check) => check.status === "fail");
+    lines.push("", failed.length ? `${failed.length} check(s) failed, run \`uc-quantum-lab.doctor\` again after fixing them.` : "Everything is working.");
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Runs the checks, shows the report, and offers the fixes of the failed checks, the checks are run again after a fix
+ * @param config : configuration of the extension
+ */
+export async function doctor(config:Config) {
+    while (true) {
+        let checks:DoctorCheck[] = await vscode.window.withProgress({
+            location : vscode.ProgressLocation.Notification,
+            title : "Checking the environment"
+        }, async (progress) => await runDoctor(config, (message) => progress.report({ message : message })));
+
+        let report:vscode.TextDocument = await vscode.workspace.openTextDocument({ language : "markdown", content : formatDoctorReport(config, checks) });
+        await vscode.window.showTextDocument(report, { preview : true });
+
+        let failed:DoctorCheck[] = checks.filter((check) => check.status === "fail");
+        if (!(failed.length)) {
+            info("Every check passed");
+            return;
+        }
+        // one item for each failed check, picking one runs its fix
+        let arr:(vscode.QuickPickItem & {"check" : DoctorCheck})[] = failed.map((check) => {
+            return {
+                label : check.fix !== undefined ? `$(wrench) ${check.fix.label}` : `$(error) ${check.name}`,
+                description : check.fix !== undefined ? check.name : "fix this yourself",
+                detail : check.detail,
+                check : check
+            };
+        });
+        let result = await vscode.window.showQuickPick(arr, { title : `${failed.length} check(s) failed, choose one to fix`, ignoreFocusOut : true });
+        if (result?.check.fix === undefined) { return; }
+        // the checks are run again after a fix that failed too, so the user can pick another one
+        try { await result.check.fix.run(); }
+        catch ( e ) { info(`could not fix ${result.check.name}: ${(e as Error).message}`); }
+    }
+}
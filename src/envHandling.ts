@@ -0,0 +1,125 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs";
+import { Config } from "./config";
+import { print, error, InfoType, InfoInnerType } from "./src";
+import { runProcess, runCommand, succeeded, describeFailure, pipOf, installTimeout, ProcessResult } from "./processHandling";
+
+// names of the directories in the workspace that are usually virtual environments
+const workspaceEnvNames:string[] = [".venv", "venv"];
+
+/**
+ * Gets the python interpreter of a virtual environment
+ * @param envPath : path of the virtual environment
+ * @returns path of the python interpreter in it
+ */
+export function getEnvPython(envPath:string):string {
+    // if on windows (eww)
+    if (os.platform() === "win32") { return path.join(envPath, "Scripts", "python.exe"); }
+    return path.join(envPath, "bin", "python");
+}
+
+/**
+ * Makes the information on an environment
+ * @param envPath : path of the environment
+ * @param exe : python interpreter of the environment
+ * @returns information on the environment, undefined if the interpreter does not exist
+ */
+async function getEnvInfo(envPath:string, exe:string=getEnvPython(envPath)):Promise<InfoInnerType|undefined> {
+    if (!(fs.existsSync(exe))) {
+        print(`skipping "${envPath}", "${exe}" does not exist`);
+        return undefined;
+    }
+    return {
+        "path" : envPath,
+        "exe" : exe,
+        "pip" : pipOf(exe),
+        // seeing if the python interpreter has the qiskit module installed
+        "hasQiskit" : succeeded(await runProcess(exe, ["-c", "import qiskit"]))
+    };
+}
+
+/**
+ * Gets the pyenv versions installed on the user's machine
+ * @returns paths of the installed versions
+ */
+async function getPyenvVersions():Promise<string[]> {
+    let roots:string[] = [process.env["PYENV_ROOT"] ?? path.join(os.homedir(), ".pyenv")];
+    // pyenv-win keeps its versions one level deeper
+    if (os.platform() === "win32") { roots.push(path.join(os.homedir(), ".pyenv", "pyenv-win")); }
+    let toReturn:string[] = [];
+    for (let root of roots) {
+        let versions:string = path.join(root, "versions");
+        if (!(fs.existsSync(versions))) { continue; }
+        for (let entry of await fs.promises.readdir(versions)) {
+            if ((await fs.promises.stat(path.join(versions, entry))).isDirectory()) { toReturn.push(path.join(versions, entry)); }
+        }
+    }
+    return toReturn;
+}
+
+/**
+ * Gets a dictionary containing information on the python environments that are not conda environments: virtual
+ * environments in the workspace, the active virtual environment, pyenv versions, and Poetry and Pipenv environments
+ * @param config : configuration of the extension
+ * @returns Dictionary of infoType type that contains information on the environments, the keys describe where each was found
+ */
+export async function getPythonEnvs(config:Config):Promise<InfoType> {
+    let toReturn:InfoType = {};
+    let add = (name:string, env:InfoInnerType|undefined) => {
+        // the same environment can be found more than one way, only keeping the first
+        if (env !== undefined && !(Object.values(toReturn).some((other) => path.resolve(other.exe) === path.resolve(env.exe)))) {
+            print(`Detected python environment "${name}" at ${env.path}`);
+            toReturn[name] = env;
+        }
+    };
+
+    // virtual environments in the workspace
+    for (let name of workspaceEnvNames) {
+        let envPath:string = path.join(config.workspacePath, name);
+        if (fs.existsSync(envPath)) { add(`${name} (workspace)`, await getEnvInfo(envPath)); }
+    }
+    // the virtual environment vscode was started in
+    if (process.env["VIRTUAL_ENV"] !== undefined) {
+        add(`${path.basename(process.env["VIRTUAL_ENV"])} ($VIRTUAL_ENV)`, await getEnvInfo(process.env["VIRTUAL_ENV"]));
+    }
+    // Poetry and Pipenv environments of the workspace, these are only asked for if the workspace uses the tool
+    if (fs.existsSync(path.join(config.workspacePath, "pyproject.toml")) && succeeded(await runProcess("poetry", ["--version"]))) {
+        let envPath:string = (await runProcess("poetry", ["env", "info", "-p"], { cwd : config.workspacePath })).stdout.trim();
+        if (envPath.length) { add(`${path.basename(envPath)} (Poetry)`, await getEnvInfo(envPath)); }
+    }
+    if (fs.existsSync(path.join(config.workspacePath, "Pipfile")) && succeeded(await runProcess("pipenv", ["--version"]))) {
+        let envPath:string = (await runProcess("pipenv", ["--venv"], { cwd : config.workspacePath })).stdout.trim();
+        if (envPath.length) { add(`${path.basename(envPath)} (Pipenv)`, await getEnvInfo(envPath)); }
+    }
+    // pyenv versions, on windows the interpreter is at the top of the version directory
+    for (let envPath of await getPyenvVersions()) {
+        add(`${path.basename(envPath)} (pyenv)`, await getEnvInfo(envPath, os.platform() === "win32" ? path.join(envPath, "python.exe") : getEnvPython(envPath)));
+    }
+    return toReturn;
+}
+
+/**
+ * Makes a virtual environment named ".venv" in the workspace with "python -m venv", the python module of this
+ * extension is installed in it when python is verified
+ * @param config : configuration of the extension
+ * @param base : python interpreter to make the virtual environment with
+ * @returns information on the new environment
+ */
+export async function createVenv(config:Config, base:string):Promise<InfoInnerType> {
+    let envPath:string = path.join(config.workspacePath, workspaceEnvNames[0]);
+    if (fs.existsSync(envPath)) {
+        error(`"${envPath}" already exists, choose it from the list instead of making a new one`);
+    }
+    print(`Making virtual environment at ${envPath} with "${base}"`);
+    let made:ProcessResult = await vscode.window.withProgress({
+        location : vscode.ProgressLocation.Notification,
+        title : `Making virtual environment "${workspaceEnvNames[0]}"`
+    }, async () => await runCommand(base, ["-m", "venv", envPath], { timeout : installTimeout }));
+    let env:InfoInnerType|undefined = succeeded(made) ? await getEnvInfo(envPath) : undefined;
+    if (env === undefined) {
+        error(`could not make a virtual environment with "${base} -m venv"${succeeded(made) ? "" : ` (it ${describeFailure(made)})`}, on some systems the "venv" module has to be installed separately (like the "python3-venv" package)`);
+    }
+    return env as InfoInnerType;
+}
@@ -8,9 +8,21 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { UCQ } from './panel';
-import { getConfig, Config } from "./config";
-import { setupPython, verifyPython } from "./pythonHandling";
-import { print, error, info, getLastFromPath, mkDir, checkIfFileInDir, waitForTriggerFile, delay } from "./src";
+import { getConfig, watchConfiguration, Config } from "./config";
+import { setupPython, verifyPython, syncRequirements, followMsPythonInterpreter } from "./pythonHandling";
+import { runPythonFileWithProgress, runPythonFileInTerminal, withRunProgress, RunOutcome, RunResult } from "./runHandling";
+import { readTriggerFile, TriggerMessage } from "./triggerHandling";
+import { snapshotRun, pickRuns, deleteRuns, describeRun, RunRecord } from "./historyHandling";
+import { makeCompareLayout } from "./compareHandling";
+import { WatchMode } from "./watchHandling";
+import { runSweep } from "./sweepHandling";
+import { CellCodeLensProvider, writeCellFile, getCellAt, getSelectionCell, Cell } from "./cellHandling";
+import { diagnostics, reportTracebacks, clearDiagnostics } from "./diagnosticHandling";
+import { RunManager } from "./queueHandling";
+import { doctor } from "./doctorHandling";
+import { watchLayouts } from "./layoutHandling";
+import { ProfileStatusBar, pickProfile } from "./profileHandling";
+import { print, error, warn, info, getLastFromPath, mkDir, checkIfFileInDir, waitForTriggerFile, delay, TriggerStatus } from "./src";
 
 /**
  * Initializes the workspace/current directory for this extension
@@ -37,14 +49,15 @@ async function init(config:Config, verbose:boolean=false) {
 			// can not operate without config directory
 			error("User blocked config directory creation, can not execute without it");
 		}
-		// saving user config the config file in the config directory
-		config.userConfig.save();
+		// saving user config to the settings of the workspace folder
+		await config.userConfig.save();
 
-		// copies template layout file to be displayed in the viewer
+		// copies the template layout file to be displayed in the viewer and the template requirements file
 		try {
 			await fs.promises.copyFile(config.templateLayoutFile, config.layoutFile);
+			await fs.promises.copyFile(config.templateRequirementsFile, config.requirementsFile);
 		} catch ( e ) {
-			error(`while trying to copy template layout file to config dir: ${(e as Error).message}`);
+			error(`while trying to copy template files to config dir: ${(e as Error).message}`);
 		}
 
 		// getting the template main file name from the template main file path
@@ -78,13 +91,11 @@ async function init(config:Config, verbose:boolean=false) {
 			}
 		}
 	} else {
-		// if the user config file exists
-		if (fs.existsSync(config.configFile)) {
-			// loading the user config from the file
-			config.userConfig.get();
-
+		// if python has been set up in the settings
+		if (config.userConfig.isSet()) {
 			try {
 				// checking python setup
+				config.userConfig.check();
 				await verifyPython(config);
 			} catch ( e ) {
 				print("detected faulty config");
@@ -102,7 +113,7 @@ async function init(config:Config, verbose:boolean=false) {
 			if (verbose) {
 				info("Current workspace is already initialized, nothing to do");
 			}
-		// if there is no config file to pull information from
+		// if there are no settings to pull information from
 		} else {
 			print("detected faulty config");
 			// asking the user if they want to reinitialize the current directory
@@ -120,6 +131,169 @@ async function init(config:Config, verbose:boolean=false) {
 	}
 }
 
+/**
+ * Shows the user that a python file exited with an error, both in the viewer and as a message
+ * @param config : configuration of the extension
+ * @param file : python file that was run
+ * @param result : result of the run
+ * @param mapFile : changes a file in the tracebacks of the run to the file to show the problem in
+ */
+function showRunFailure(config:Config, file:string, result:RunResult, mapFile?:(file:string) => string) {
+	reportTracebacks(config, result.stderr, mapFile);
+	UCQ.getPanel(config)?.showError(`"${getLastFromPath(file)}" exited with code ${result.code}`, result.stderr);
+	error(`"${getLastFromPath(file)}" failed with exit code ${result.code}, see the "UC_Q Run" terminal for details`);
+}
+
+/**
+ * Runs a python file and updates the viewer with the results, only called by the run manager so runs do not overlap
+ * @param config : configuration of the extension
+ * @param document : the python file to run
+ * @param interactive : whether to run the file in an interactive terminal (needed for stdin) instead of as a child process
+ * @param makeScript : makes the python file to run from the document when only part of it should be run
+ * @param stopToken : stops the run when cancelled
+ */
+async function runDocument(config:Config, document:vscode.TextDocument, interactive:boolean, 
+						   makeScript:((config:Config, document:vscode.TextDocument) => Promise<string>)|undefined, stopToken:vscode.CancellationToken) {
+	// making sure the settings are usable, they are kept up to date when they change
+	config.userConfig.check();
+	// installing what the requirements file of the workspace asks for, only asks again when the file changes
+	await syncRequirements(config);
+	// the document could have been closed while this run was queued or before a rerun
+	if (document.isClosed) {
+		document = await vscode.workspace.openTextDocument(document.uri);
+	}
+	// only saving if needed, saving an unchanged file would trigger watch mode again
+	if (document.isDirty) {
+		print("saving document");
+		await document.save();
+	}
+	let source:string = document.fileName;
+	// the python file to run, if only part of the source file is run then this is a generated file
+	let file:string = source;
+	let extraEnv:NodeJS.ProcessEnv = {};
+	if (makeScript !== undefined) {
+		file = await makeScript(config, document);
+		// letting the generated file import modules next to the source file like the source file can
+		extraEnv["PYTHONPATH"] = [path.dirname(source), process.env["PYTHONPATH"]].filter((val) => val).join(path.delimiter);
+	}
+	// errors in a generated file are shown in the source file, the line numbers are the same
+	let mapFile = (traceFile:string) => path.resolve(traceFile) === path.resolve(file) ? source : traceFile;
+
+	// removing a trigger file left over from an earlier run so it is not mistaken for this one
+	try { await fs.promises.rm(config.triggerFile, { force : true }); }
+	catch ( e ) { print(`could not remove old trigger file: ${(e as Error).message}`); }
+
+	// result of the child process, not known when running in a terminal
+	let result:RunResult|undefined;
+	if (interactive) {
+		print("executing in termial");
+		runPythonFileInTerminal(config, file);
+		print("Waiting for trigger file");
+		
+		// waiting for trigger file to be made by the python module, this extension waits for it then continues
+		let status:TriggerStatus = await withRunProgress(`Waiting for "${getLastFromPath(source)}"`, 
+			async (token) => await waitForTriggerFile(config, config.userConfig.timeout, token), stopToken);
+		if (status === "cancelled") {
+			// the terminal belongs to the user, so the python file is left running in it
+			info("Stopped waiting for the run to finish");
+			return;
+		} else if (status === "timeout") {
+			error(`hit the time limit of ${config.userConfig.timeout}s waiting for the run to finish, you can change it with the "uc-quantum-lab.timeout" setting (0 means no limit)`);
+		}
+	} else {
+		print("executing as child process");
+		let outcome:RunOutcome = await runPythonFileWithProgress(config, file, extraEnv, stopToken);
+		// telling the user right away if the run failed instead of waiting for the trigger file
+		if (outcome.trigger === "timeout") {
+			error(`hit the time limit of ${config.userConfig.timeout}s so the run was stopped, you can change it with the "uc-quantum-lab.timeout" setting (0 means no limit)`);
+		} else if (outcome.result.killed) {
+			// the user or a newer run stopped this one, so they already know
+			print("Run was stopped");
+			return;
+		}
+		result = outcome.result;
+		if (outcome.trigger !== "found") {
+			if (result.code !== 0) { showRunFailure(config, source, result, mapFile); }
+			warn(`"${getLastFromPath(source)}" finished without making any output for the viewer, did it use the "UC_Quantum_Lab" module?`);
+			return;
+		}
+	}
+
+	// reading what the python module reported about the run
+	let message:TriggerMessage = await readTriggerFile(config, file);
+	// the python module did not report the failure (older versions do not), so showing what python reported
+	if (result !== undefined && result.code !== 0 && message.status !== "error") {
+		showRunFailure(config, source, result, mapFile);
+	} else if (message.status === "error" && message.error !== undefined) {
+		reportTracebacks(config, message.error.traceback, mapFile);
+	} else if (message.status === "success") {
+		// the problems from the last failed run are fixed
+		clearDiagnostics();
+	}
+	
+	// this is temporary, waiting a bit to let things cool down in the filesystem
+	await delay(100); // milliseconds
+
+	// keeping a copy of the results so they are not lost on the next run, 
+	// the user is already told if this fails and it should not stop the viewer from updating
+	try { await snapshotRun(config, source, message); } 
+	catch ( e ) {}
+	
+	// updating the panel, note: no longer need to pass the config because no longer html from config
+	await UCQ.getPanel(config)?.update(message);
+	if (message.status === "error" && message.error !== undefined) {
+		error(`"${getLastFromPath(source)}" raised ${message.error.type}: ${message.error.message}`);
+	}
+}
+
+/**
+ * Executes the python file in the active editor and updates the viewer with the results, waits for the run that is
+ * going in the workspace folder to finish first
+ * @param context : context for this extension
+ * @param interactive : whether to run the file in an interactive terminal (needed for stdin) instead of as a child process
+ * @param makeScript : makes the python file to run from the active document when only part of it should be run
+ * @param name : description of what is run, defaults to the name of the active file
+ */
+async function execute(context:vscode.ExtensionContext, interactive:boolean, 
+					   makeScript?:(config:Config, document:vscode.TextDocument) => Promise<string>, name?:string) {
+	try {
+		// loading the configuration from the ./config.ts
+		let config:Config = await getConfig(context);
+	
+		// if the viewer panel is open and there is an active editor
+		if (UCQ.getPanel(config) && vscode.window.activeTextEditor) {
+			print("Window is active");
+			// if there is a document open in the text editor
+			if (vscode.window.activeTextEditor.document !== undefined) {
+				let document:vscode.TextDocument = vscode.window.activeTextEditor.document;
+				// checking if the active editor file is a python file
+				if (!(document.fileName.endsWith(".py"))) {
+					// can not execute non python file, so telling the user that
+					error(`"${document.fileName}" is not a python file, can not execute it`);
+					return;
+				} else {
+					// if here, then the file is a python file, running it once the run that is going (if any) is done
+					await RunManager.get(config).request({
+						"name" : name ?? getLastFromPath(document.fileName),
+						"task" : async (token) => await runDocument(config, document, interactive, makeScript, token)
+					});
+				}
+			} else {
+				// can not execute nothing
+				error("Must have an active document open"); 
+				return; 
+			}
+		} else {
+			// if nothing is opening, first running init to make sure everything is setup correctly
+			await init(config);
+			print("Creating Window");
+			// creating window
+			UCQ.createOrShow(config);
+		}
+	// functions handle their own errors so do not need to do anything here
+	} catch ( e ) {}
+}
+
 /**
  * This is essentially the main function for this extension, vscode calls this when
  * the extension is activated
@@ -127,76 +301,212 @@ async function init(config:Config, verbose:boolean=false) {
 export async function activate(context: vscode.ExtensionContext) {
 	print("In activate");
 
+	// removing the problems of failed runs when the extension is deactivated
+	context.subscriptions.push(diagnostics);
+
+	// picking up changes to the settings as they happen
+	context.subscriptions.push(watchConfiguration());
+
+	// showing the problems of layout files as they are edited
+	context.subscriptions.push(watchLayouts());
+
+	// following the interpreter selected in the Python extension, not waited for so activating is not slowed down by it
+	followMsPythonInterpreter(context)
+		.then((disposable) => context.subscriptions.push(disposable))
+		.catch((e) => print(`could not follow the interpreter of the python extension: ${(e as Error).message}`));
+
+	// showing the interpreter profile in use, clicking it switches profiles
+	context.subscriptions.push(
+		new ProfileStatusBar(),
+		vscode.commands.registerCommand("uc-quantum-lab.switchProfile", async () => {
+			try {
+				// loading the config from "./config.ts"
+				let config:Config = await getConfig(context);
+				await pickProfile(config);
+			// functions handle their own errors so do not need to do anything here
+			} catch ( e ) {}
+		})
+	);
+
 	// adding the command to vscode
 	context.subscriptions.push(
 		vscode.commands.registerCommand("uc-quantum-lab.execute", async () => {
 			print("--- executing ---");
+			await execute(context, false);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("uc-quantum-lab.executeInTerminal", async () => {
+			print("--- executing in terminal ---");
+			await execute(context, true);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("uc-quantum-lab.runCell", async (line?:number) => {
+			print("--- executing cell ---");
+			// running the cell of the code lens that was clicked, or the cell with the cursor if run from the command palette,
+			// deciding this now so a queued run or a rerun runs the same cell
+			let target:number = line ?? vscode.window.activeTextEditor?.selection.active.line ?? 0;
+			await execute(context, false, async (config, document) => {
+				return await writeCellFile(config, document, getCellAt(document, target));
+			}, `cell at line ${target+1}`);
+		}),
+		vscode.commands.registerCommand("uc-quantum-lab.runSelection", async () => {
+			print("--- executing selection ---");
+			if (vscode.window.activeTextEditor === undefined || vscode.window.activeTextEditor.selection.isEmpty) {
+				try { error("Select the lines to run first"); } 
+				catch ( e ) {}
+				return;
+			}
+			// deciding the lines now so a queued run or a rerun runs the same lines
+			let cell:Cell = getSelectionCell(vscode.window.activeTextEditor.selection);
+			await execute(context, false, async (config, document) => {
+				return await writeCellFile(config, document, cell);
+			}, `lines ${cell.start+1} to ${cell.end+1}`);
+		}),
+		vscode.languages.registerCodeLensProvider({ language : "python", scheme : "file" }, new CellCodeLensProvider())
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("uc-quantum-lab.sweep", async () => {
+			print("--- sweeping ---");
 			try {
-				// loading the configuration from the ./config.ts
+				// loading the config from "./config.ts"
 				let config:Config = await getConfig(context);
-			
-				// if the viewer panel is open and there is an active editor
-				if (UCQ.currentPanel && vscode.window.activeTextEditor) {
-					print("Window is active");
-					// if there is a document open in the text editor
-					if (vscode.window.activeTextEditor.document !== undefined) {
-						// loads python from local config.json
-						config.userConfig.get();
-
-						// checking if the active editor file is a python file
-						if (!(vscode.window.activeTextEditor.document.fileName.endsWith(".py"))) {
-							// can not execute non python file, so telling the user that
-							error(`"${vscode.window.activeTextEditor.document.fileName}" is not a python file, can not execute it`);
-							return;
-						} else {
-							// if here, then the file is a python file
-							print("saving active document");
-							await vscode.window.activeTextEditor.document.save();
-							
-							print("executing in termial");
-							// if there is an active terminal in editor
-							if (vscode.window.activeTerminal) {
-								print("Sending to active terminal");
-								// making sure the user can see the terminal
-								vscode.window.activeTerminal.show(true);
-								// sending the python command to active terminal to execute the active python file
-								vscode.window.activeTerminal.sendText(`${config.userConfig.python} ${vscode.window.activeTextEditor.document.fileName}`);
-							} else {
-								// if here, then there was no active terminal so one is made
-								print("creating terminal and sending to it");
-								// creating terminal in vscode
-								let term = vscode.window.createTerminal();
-								// sending the python command to active terminal to execute the active python file
-								term.sendText(`${config.userConfig.python} ${vscode.window.activeTextEditor.document.fileName}`);
-							}
-							print("Waiting for trigger file");
-							
-							// waiting for trigger file to be made by the python module, this extension waits for it then continues
-							await waitForTriggerFile(config);
-							
-							// this is temporary, waiting a bit to let things cool down in the filesystem
-							await delay(100); // milliseconds
-							
-							// updating the panel, note: no longer need to pass the config because no longer html from config
-							UCQ.currentPanel.update();
-						}
-					} else {
-						// can not execute nothing
-						error("Must have an active document open"); 
-						return; 
-					}
+				if (!(fs.existsSync(config.configDir))) {
+					error("Current workspace is not initialized, run the execute command first");
+				}
+
+				let editor:vscode.TextEditor|undefined = vscode.window.activeTextEditor;
+				if (editor === undefined || !(editor.document.fileName.endsWith(".py"))) {
+					error("Open the python file to sweep in the editor first");
 				} else {
-					// if nothing is opening, first running init to make sure everything is setup correctly
-					await init(config);
-					print("Creating Window");
-					// creating window
+					let document:vscode.TextDocument = editor.document;
+					// the sweep uses the same trigger file as other runs, so it waits for the run that is going (if any)
+					await RunManager.get(config).request({
+						"name" : `sweep of ${getLastFromPath(document.fileName)}`,
+						"task" : async (token) => {
+							config.userConfig.check();
+							if (document.isDirty) { await document.save(); }
+							let layoutFile:string = await runSweep(config, document.fileName, token);
+							UCQ.createOrShow(config);
+							await UCQ.getPanel(config)?.showLayout(layoutFile, `sweep of ${getLastFromPath(document.fileName)}`);
+						}
+					});
+				}
+			// functions handle their own errors so do not need to do anything here
+			} catch ( e ) {}
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("uc-quantum-lab.doctor", async () => {
+			print("--- checking the environment ---");
+			try {
+				// loading the config from "./config.ts"
+				let config:Config = await getConfig(context);
+				await doctor(config);
+			// functions handle their own errors so do not need to do anything here
+			} catch ( e ) {}
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("uc-quantum-lab.stop", () => {
+			if (!(RunManager.stopAll())) { info("Nothing is running"); }
+		}),
+		vscode.commands.registerCommand("uc-quantum-lab.rerun", async () => {
+			print("--- rerunning ---");
+			try {
+				// loading the config from "./config.ts", using the workspace folder of the viewer if the user is looking at it
+				let config:Config = await getConfig(context, UCQ.getActivePanel()?._config.workspaceFolder);
+				await RunManager.get(config).rerun();
+			// functions handle their own errors so do not need to do anything here
+			} catch ( e ) {}
+		}),
+		// making sure runs are stopped when the extension is deactivated
+		{ dispose : () => { for (let manager of Array.from(RunManager.managers.values())) { manager.dispose(); } } }
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("uc-quantum-lab.watch", () => {
+			WatchMode.toggle();
+		}),
+		// making sure watch mode stops listening when the extension is deactivated
+		{ dispose : () => WatchMode.current?.dispose() }
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("uc-quantum-lab.history", async () => {
+			try {
+				// loading the config from "./config.ts", using the workspace folder of the viewer if the user is looking at it
+				let config:Config = await getConfig(context, UCQ.getActivePanel()?._config.workspaceFolder);
+				if (!(fs.existsSync(config.configDir))) {
+					error("Current workspace is not initialized, run the execute command first");
+				}
+				// having the user choose the run to show
+				let records:RunRecord[] = await pickRuns(config, "Choose a run to show in the viewer", false);
+				if (records.length) {
 					UCQ.createOrShow(config);
+					await UCQ.getPanel(config)?.showRun(records[0]);
+				}
+			// functions handle their own errors so do not need to do anything here
+			} catch ( e ) {}
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("uc-quantum-lab.compare", async () => {
+			try {
+				// loading the config from "./config.ts", using the workspace folder of the viewer if the user is looking at it
+				let config:Config = await getConfig(context, UCQ.getActivePanel()?._config.workspaceFolder);
+				if (!(fs.existsSync(config.configDir))) {
+					error("Current workspace is not initialized, run the execute command first");
 				}
+				// having the user choose the two runs to compare
+				let before:RunRecord[] = await pickRuns(config, "Choose the \"before\" run to compare", false);
+				if (!(before.length)) { return; }
+				let after:RunRecord[] = await pickRuns(config, "Choose the \"after\" run to compare", false);
+				if (!(after.length)) { return; }
+				let layoutFile:string = await makeCompareLayout(config, before[0], after[0]);
+				UCQ.createOrShow(config);
+				await UCQ.getPanel(config)?.showLayout(layoutFile, `comparing ${describeRun(before[0])} and ${describeRun(after[0])}`);
 			// functions handle their own errors so do not need to do anything here
 			} catch ( e ) {}
 		})
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand("uc-quantum-lab.deleteHistory", async () => {
+			try {
+				// loading the config from "./config.ts", using the workspace folder of the viewer if the user is looking at it
+				let config:Config = await getConfig(context, UCQ.getActivePanel()?._config.workspaceFolder);
+				// having the user choose the runs to delete
+				let records:RunRecord[] = await pickRuns(config, "Choose the runs to delete", true);
+				if (records.length) {
+					let choice:string|undefined = await vscode.window.showInformationMessage(`Will delete ${records.length} recorded run(s), is this ok`, config.yes, config.no);
+					if (choice === config.yes) {
+						await deleteRuns(config, records);
+						info(`Deleted ${records.length} recorded run(s)`);
+					}
+				}
+			// functions handle their own errors so do not need to do anything here
+			} catch ( e ) {}
+		})
+	);
+
+	// closing the panels of workspace folders that are removed
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+			for (let folder of event.removed) {
+				UCQ.kill(folder.uri.fsPath);
+				RunManager.managers.get(folder.uri.fsPath)?.dispose();
+			}
+		})
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('uc-quantum-lab.init', async () => {
 			try {
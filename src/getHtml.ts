@@ -1,56 +1,59 @@
 import * as fs from "fs";
 import * as os from "os";
+import * as path from "path";
 import * as vscode from "vscode";
 import { Config } from "./config";
-import { print, error } from "./src";
+import { checkLayoutText, splitStyle, isUrl } from "./layoutHandling";
+import { print, error, escapeHtml } from "./src";
 
-// global variables (here for ease of use in recurssion)
-let html:string[] = [];
-let css:string[] = [];
-let sizes:string[] = [];
-let count:number = 0;
-let _config:Config;
-let _webview:vscode.Webview;
+// what one render of a layout builds up, every render has its own so renders of different viewers can not mix
+type RenderContext = {
+    "config" : Config,
+    "webview" : vscode.Webview,
+    // directory of the layout file, paths of images are relative to it
+    "layoutDir" : string,
+    "html" : string[],
+    "css" : string[],
+    "sizes" : string[],
+    // number of panes made so far, used for their ids
+    "count" : number
+};
 
 /**
  * Turns inputted file path into a uri using the current webview panel
+ * @param ctx : the render, its webview makes the uri
  * @param path : file path to turn into a uri
  * @returns file path as a uri
  */
-async function uriIfy(path:string):Promise<string> {
-    return _webview.asWebviewUri(vscode.Uri.file(path)).toString();
+async function uriIfy(ctx:RenderContext, path:string):Promise<string> {
+    return ctx.webview.asWebviewUri(vscode.Uri.file(path)).toString();
 }
 
 /**
  * Formats an inputted template of html to be displayed
+ * @param ctx : the render the html is added to
  * @param main : string representation of an html format to use
  * @returns html to display
  */
-async function formatMain(main:string):Promise<string> {
+async function formatMain(ctx:RenderContext, main:string):Promise<string> {
     // creating html for the css files
     let styles:string[] = [];
-    for (let file of _config.cssFiles) {
-        styles.push(`<link rel="stylesheet" href="${await uriIfy(file)}">`);
+    for (let file of ctx.config.cssFiles) {
+        styles.push(`<link rel="stylesheet" href="${await uriIfy(ctx, file)}">`);
     }
 
     // creating html for the java script files
     let scripts:string[] = [];
-    for (let file of _config.scriptFiles) {
-        scripts.push(`<script src="${await uriIfy(file)}"></script>`);
+    for (let file of ctx.config.scriptFiles) {
+        scripts.push(`<script src="${await uriIfy(ctx, file)}"></script>`);
     }
 
     // inserting joined lists at the prescribed location is the provided format
     main = main.replace("STYLES", styles.join("\n        "));
-    main = main.replace("CONTENTS", html.join("\n").trim());
-    main = main.replace("CSS", css.join("\n        ").trim());
-    main = main.replace("SIZES", sizes.join(",").trim());
+    main = main.replace("CONTENTS", ctx.html.join("\n").trim());
+    main = main.replace("CSS", ctx.css.join("\n        ").trim());
+    main = main.replace("SIZES", ctx.sizes.join(",").trim());
     main = main.replace("SCRIPTS", scripts.join("\n        "));
-
-    // reseting the values, if you do not do this, things get messy
-    html = [];
-    css = [];
-    sizes = [];
-    count = 0;
     return main;
 }
 
@@ -69,14 +72,15 @@ async function adjustUri(uri:string, fpath:string):Promise<string> {
 
 /**
  * Formats the provided html by replacing keywords with html, the map in the function for the keywords
+ * @param ctx : the render the html is added to
  * @param source : some html to be formatted
  * @returns the inputted html with the key words replaced
  */
-async function formatSource(source:string):Promise<string> {
+async function formatSource(ctx:RenderContext, source:string):Promise<string> {
     // the keywords to replace in the inputted string, in the string these keywords must be surrounded by brackets
     // i.e. the syntax is {KEYWORD}
     let keywords = new Map<string, string>([
-        ["URI", await adjustUri((await uriIfy(_config.configFile)).toString(), _config.configFile)] // uri for this viewer
+        ["URI", await adjustUri((await uriIfy(ctx, ctx.config.configFile)).toString(), ctx.config.configFile)] // uri for this viewer
     ]);
     let before:string = "";
     let after:string = "";
@@ -115,13 +119,87 @@ async function formatSource(source:string):Promise<string> {
     return source;
 }
 
+/**
+ * Gets the src of an image for the webview
+ * @param ctx : the render the html is added to
+ * @param src : url or path of the image, paths are relative to the layout file
+ * @returns the src
+ */
+async function resolveSrc(ctx:RenderContext, src:string):Promise<string> {
+    // urls and inline images are used as they are
+    if (isUrl(src)) { return src; }
+    return await uriIfy(ctx, path.resolve(ctx.layoutDir, src));
+}
+
+/**
+ * Renders markdown into html
+ * @param text : the markdown
+ * @returns the html, the markdown as plain text if it could not be rendered
+ */
+async function renderMarkdown(text:string):Promise<string> {
+    try {
+        // the markdown extension that comes with vscode renders it the way the markdown preview does
+        let rendered:string|undefined = await vscode.commands.executeCommand<string>("markdown.api.render", text);
+        if (rendered !== undefined) { return rendered; }
+    } catch ( e ) {
+        print(`could not render markdown: ${(e as Error).message}`);
+    }
+    return `<pre style="white-space:pre-wrap;">${escapeHtml(text)}</pre>`;
+}
+
+/**
+ * Makes an html table
+ * @param rows : the rows, each a list of cells or an object with the header of each cell as its key
+ * @param header : the header of each column, for rows that are objects it defaults to every key in the order they show up
+ * @returns the html of the table
+ */
+function renderTable(rows:any[], header?:string[]):string {
+    let cell = (value:any):string => value === null || value === undefined ? "" : escapeHtml(typeof value === "string" ? value : JSON.stringify(value));
+    if (rows.length && !(Array.isArray(rows[0]))) {
+        let keys:string[] = header ?? rows.reduce((found:string[], row:any) => found.concat(Object.keys(row).filter((key) => found.indexOf(key) === -1)), []);
+        header = keys;
+        rows = rows.map((row) => keys.map((key) => row[key]));
+    }
+    let head:string = header !== undefined && header.length ? `<thead><tr>${header.map((value) => `<th>${cell(value)}</th>`).join("")}</tr></thead>` : "";
+    return `<table class="layout-table">${head}<tbody>${rows.map((row) => `<tr>${row.map((value:any) => `<td>${cell(value)}</td>`).join("")}</tr>`).join("")}</tbody></table>`;
+}
+
+/**
+ * Makes the html of content with a "type", like {"type" : "image", "src" : "counts.png"}
+ * @param ctx : the render the html is added to
+ * @param leaf : the content
+ * @returns html to display
+ */
+async function renderLeaf(ctx:RenderContext, leaf:any):Promise<string> {
+    switch (leaf.type) {
+        case "image": return `<img class="layout-image" src="${escapeHtml(await resolveSrc(ctx, leaf.src))}" alt="${escapeHtml(leaf.alt ?? "")}">`;
+        case "markdown": return `<div class="layout-markdown">${await renderMarkdown(leaf.text)}</div>`;
+        // mathjax typesets it when the viewer loads
+        case "latex": return `<div class="layout-latex">\\[${escapeHtml(leaf.text)}\\]</div>`;
+        case "table": return renderTable(leaf.rows, leaf.header);
+        case "html": return await formatSource(ctx, leaf.html);
+        default: throw new SyntaxError(`unknown content type "${leaf.type}", the types are "image", "markdown", "latex", "table", and "html"`);
+    }
+}
+
+// the ways a level can lay out its panes, "html" is a pane with html in it
+type LayoutKind = "row" | "column" | "grid" | "tabs" | "only" | "html";
+
 // main class, this does all of the html generation and json parsing
 class Content {
-    _locations:string[] = [];
-    _contents:any[] = [];
-    _styles:string[] = [];
+    _kind:LayoutKind = "html";
+    _contents:Content[] = [];
+    // labels of the tabs when this level is tabs
+    _labels:string[] = [];
+    // number of columns when this level is a grid
+    _columns:number = 1;
+    // css of this level, it goes on the pane of this level in its parent
+    _style:string = "";
+    // fraction of its parent this level takes up, undefined to share what the other panes leave
+    _size:number|undefined = undefined;
     _source:string = "";
-    _sizes:number[] = [];
+    // content with a "type" like an image or a table, it is made into html when the html is generated
+    _leaf:any = undefined;
 
     /**
      * Constructs the class from a json object, this heavily uses recursion
@@ -130,126 +208,175 @@ class Content {
     constructor(obj:any) {
         // if the object is not a string then it is a json object
         if (typeof obj !== "string") {
-            // making sure "left" and "right" is not with "top" and "bottom"
-            if ((obj.right !== undefined || obj.left !== undefined) && (obj.top !== undefined || obj.bottom !== undefined)) {
-                throw new SyntaxError(`left and right can not be on the same level as top and bottom`);
+            // making sure only one kind of level is used, like "left" and "right" with "top" and "bottom"
+            let kinds:string[] = [["left", "right"], ["top", "bottom"], ["row"], ["column"], ["grid"], ["tabs"], ["only"]]
+                .filter((keys) => keys.some((key) => obj[key] !== undefined)).map((keys) => keys.join(" and "));
+            if (kinds.length > 1) {
+                throw new SyntaxError(`${kinds.join(", ")} can not be on the same level`);
             }
-            // if tiling horizontally
-            if (obj.right !== undefined && obj.left !== undefined) {
-                this._locations.push("right");
-                this._contents.push(new Content(obj.right)); // creating right tile
-                this._locations.push("left");
-                this._contents.push(new Content(obj.left)); // creating left tile
-            // if tiling vertically
+            if (obj.type !== undefined) {
+                this._leaf = obj;
+            // left and right is a row of two panes and top and bottom is a column of two panes
+            } else if (obj.right !== undefined && obj.left !== undefined) {
+                this._kind = "row";
+                this._contents = [new Content(obj.left), new Content(obj.right)]; // creating the left and right tiles
             } else if (obj.top !== undefined && obj.bottom !== undefined) {
-                this._locations.push("top");
-                this._contents.push(new Content(obj.top)); // creating top tile
-                this._locations.push("bottom");
-                this._contents.push(new Content(obj.bottom)); // creating bottom tile
+                this._kind = "column";
+                this._contents = [new Content(obj.top), new Content(obj.bottom)]; // creating the top and bottom tiles
+            } else if (Array.isArray(obj.row) || Array.isArray(obj.column) || Array.isArray(obj.grid)) {
+                this._kind = Array.isArray(obj.row) ? "row" : (Array.isArray(obj.column) ? "column" : "grid");
+                this._contents = obj[this._kind].map((pane:any) => new Content(pane)); // creating a tile for each pane
+                // a grid is as close to square as it can be unless told otherwise
+                this._columns = obj.columns ?? Math.ceil(Math.sqrt(this._contents.length));
+            } else if (typeof obj.tabs === "object" && obj.tabs !== null) {
+                this._kind = "tabs";
+                this._labels = Object.keys(obj.tabs);
+                this._contents = this._labels.map((label) => new Content(obj.tabs[label])); // creating a tile for each tab
             // if not tiling at all
             } else if (obj.only !== undefined) {
-                this._locations.push("only");
-                this._contents.push(new Content(obj.only)); // creating content
+                this._kind = "only";
+                this._contents = [new Content(obj.only)]; // creating content
             } else {
                 throw new SyntaxError(`undefined location specifier, also could be "top" or "right" without corresponding "bottom" or "left"`);
             }
+            if (this._kind !== "html" && !(this._contents.length)) {
+                throw new SyntaxError(`"${this._kind}" must have at least one pane`);
+            }
             // if "style" was provided as an argument
             if (obj.style !== undefined) {
                 // if not is not a string, no good
                 if (typeof obj.style !== "string") {
                     throw new SyntaxError(`"style" must be string`);
-                } else {
-                    // parsing style to get size becasue that goes somewhere else and not in css
-                    let components:string[] = obj.style.split(";");
-                    let toRemove:number[] = [];
-                    for (let i = 0; i < components.length; i++) {
-                        if (components[i].indexOf("size") !== -1) {
-                            // getting the size string and then converting it to a float
-                            this._sizes.push(+(components[i].trim().slice(components[i].indexOf(":")+1, components[i].length)).trim());
-                            toRemove.push(i);
-                            break;
-                        }
-                    }
-                    // rejoining the css style
-                    for (let num of toRemove) { components.splice(num, 1); }
-                    this._styles.push(components.join(";")); 
                 }
+                // parsing style to get size becasue that goes somewhere else and not in css
+                let style = splitStyle(obj.style);
+                this._style = style.css;
+                this._size = style.size;
             }
         // if the object is a string, then it is html and setting this pane's html to it
         } else { this._source = obj.toString(); }
     }
 
     /**
-     * shifts _styles and _sizes up to the parent object recursively
+     * Gets the fraction of this level each pane takes up, panes without a size share what the others leave and the
+     * sizes are scaled to add up to 1
+     * @returns the fraction of each pane
+     */
+    getSizes():number[] {
+        let known:number = this._contents.reduce((sum, pane) => sum + (pane._size ?? 0), 0);
+        let unsized:number = this._contents.filter((pane) => pane._size === undefined).length;
+        let toReturn:number[] = this._contents.map((pane) => pane._size ?? Math.max(0, 1 - known)/unsized);
+        let total:number = toReturn.reduce((sum, size) => sum + size, 0);
+        return total > 0 ? toReturn.map((size) => size/total) : toReturn.map(() => 1/toReturn.length);
+    }
+
+    /**
+     * generates the html of a pane, its content is this level
+     * @param ctx : the render the html is added to
      * @param level : current level of recursion
      */
-    async perculate(level:number=0) {
-        let thisLevel:number = level;
-        for (let obj of this._contents) {
-            if (typeof obj !== "string") {
-                if (obj._styles.length) {
-                    // shifting the styles and sizes
-                    this._styles = this._styles.concat(obj._styles);
-                    this._sizes = this._sizes.concat(obj._sizes);
-                    // erasing the styles and sizes of the object
-                    obj._styles = [];
-                    obj._sizes = [];
-                }
-                await obj.perculate(level=thisLevel+1); // recursion
-            }
+    async getContentHtml(ctx:RenderContext, level:number) {
+        if (this._kind === "html") {
+            // the spacing is just a formating choice, it makes pretty html
+            ctx.html.push(`${" ".repeat(level*4 + 12)}${this._leaf !== undefined ? await renderLeaf(ctx, this._leaf) : await formatSource(ctx, this._source)}`);
+        } else {
+            await this.getHtml(ctx, level); // recursion
         }
-        // setting the sizes
-        if (this._sizes[0] !== undefined) {
-            // setting the size of the second pane from the first, this will override the other pane's specified size
-            if (this._sizes.length < 2) {
-                this._sizes.push(1 - this._sizes[0]);
-            } else {
-                this._sizes[1] = 1 - this._sizes[0];
-            }
+    }
+
+    /**
+     * generates the html of a pane that Resizable.js can resize
+     * @param ctx : the render the html is added to
+     * @param location : where the pane is in its parent, like "left"
+     * @param content : what is in the pane, undefined if the pane only holds more panes
+     * @param size : fraction of the parent the pane takes up
+     * @param level : current level of recursion
+     * @param inner : generates what is in the pane when it is not a level
+     */
+    async paneHtml(ctx:RenderContext, location:string, content:Content|undefined, size:number, level:number, inner?:() => Promise<void>) {
+        let pre:string = " ".repeat(level*4 + 12);
+        ctx.count++;
+        // creating the html and setting window to the count for later purposes
+        ctx.html.push(`${pre}<div class="resizable-${location}"  id="win${ctx.count}">`);
+        ctx.sizes.push(`"win${ctx.count}":${size}`);
+        // setting css style of pane is defined
+        if (content !== undefined && content._style.length) {
+            // the spacing are just a formating choice, it makes pretty html
+            ctx.css.push(`        #win${ctx.count} {${content._style}}`);
         }
-        return;
+        if (content !== undefined) { await content.getContentHtml(ctx, level+1); }
+        else if (inner !== undefined) { await inner(); }
+        // "pre" is a formating choice, it makes pretty html
+        ctx.html.push(`${pre}</div>`);
+    }
+
+    /**
+     * generates the html of a row or column of panes, Resizable.js only splits a pane in two so the first pane is
+     * split from a pane holding the rest of them
+     * @param ctx : the render the html is added to
+     * @param panes : the panes
+     * @param paneSizes : fraction of the row or column each pane takes up
+     * @param level : current level of recursion
+     */
+    async splitHtml(ctx:RenderContext, panes:Content[], paneSizes:number[], level:number) {
+        let [first, second]:string[] = this._kind === "row" ? ["left", "right"] : ["top", "bottom"];
+        await this.paneHtml(ctx, first, panes[0], paneSizes[0], level);
+        if (panes.length === 2) {
+            await this.paneHtml(ctx, second, panes[1], paneSizes[1], level);
+            return;
+        }
+        // the sizes of the rest are fractions of the pane holding them
+        let rest:number[] = paneSizes.slice(1);
+        let total:number = rest.reduce((sum, size) => sum + size, 0);
+        rest = rest.map((size) => total > 0 ? size/total : 1/rest.length);
+        await this.paneHtml(ctx, second, undefined, 1 - paneSizes[0], level, async () => await this.splitHtml(ctx, panes.slice(1), rest, level+1));
     }
 
     /**
      * generates html from this class and its subclasses, recursively
+     * @param ctx : the render the html is added to
      * @param level : current level of recursion
      */
-    async getHtml(level:number=0) {
-        let thisLevel:number = level;
-        for (let i = 0; i < this._locations.length; i++) {
-            let pre:string = "";
-            // creating a spacer based on the level of recursion
-            // used for pretty formatting
-            for (let j = 0; j < level*4 + 12; j++) {
-                pre = pre.concat(" ");
-            }
-            // if supposed to tile
-            if (this._locations[i] !== "only") {
-                count++;
-                // creating the html and setting window to the count for later purposes
-                html.push(`${pre}<div class="resizable-${this._locations[i]}"  id="win${count}">`);
-                // setting size if it is defined
-                if (this._sizes[i] !== undefined) {
-                    sizes.push(`"win${count}":${this._sizes[i]}`);
-                }
-                // setting css style of pane is defined
-                if (this._styles[i] !== undefined) {
-                    // the spacing are just a formating choice, it makes pretty html
-                    css.push(`        #win${count} {${this._styles[i]}}`);
-                }
-            }
-            // if there is source html
-            if (this._contents[i]._source.length) {
-                // "pre" and the spacing are just a formating choice, it makes pretty html
-                html.push(`${pre}    ${await formatSource(this._contents[i]._source)}`);
-            } else {
-                await this._contents[i].getHtml(thisLevel+1); // recursion
+    async getHtml(ctx:RenderContext, level:number=0) {
+        // creating a spacer based on the level of recursion
+        // used for pretty formatting
+        let pre:string = " ".repeat(level*4 + 12);
+        if (this._kind === "row" || this._kind === "column") {
+            await this.splitHtml(ctx, this._contents, this.getSizes(), level);
+        } else if (this._kind === "grid") {
+            // a css grid, the panes are not resizable
+            ctx.html.push(`${pre}<div class="layout-grid" style="grid-template-columns:repeat(${this._columns}, minmax(0, 1fr));">`);
+            for (let pane of this._contents) {
+                ctx.count++;
+                ctx.html.push(`${pre}    <div class="layout-cell" id="win${ctx.count}">`);
+                if (pane._style.length) { ctx.css.push(`        #win${ctx.count} {${pane._style}}`); }
+                await pane.getContentHtml(ctx, level+2);
+                ctx.html.push(`${pre}    </div>`);
             }
-            // ends the div previously created
-            if (this._locations[i] !== "only") {
-                // "pre" is a formating choice, it makes pretty html
-                html.push(`${pre}</div>`);
+            ctx.html.push(`${pre}</div>`);
+        } else if (this._kind === "tabs") {
+            // the buttons of the strip show the pane with the same "data-tab", see format.html
+            let group:number = ++ctx.count;
+            ctx.html.push(`${pre}<div class="layout-tabs">`);
+            ctx.html.push(`${pre}    <div class="layout-tab-strip">`);
+            this._labels.forEach((label, i) => {
+                ctx.html.push(`${pre}        <button class="layout-tab${i === 0 ? " active" : ""}" data-tab="tabs${group}-${i}">${escapeHtml(label)}</button>`);
+            });
+            ctx.html.push(`${pre}    </div>`);
+            for (let i = 0; i < this._contents.length; i++) {
+                ctx.count++;
+                ctx.html.push(`${pre}    <div class="layout-tab-pane${i === 0 ? " active" : ""}" id="win${ctx.count}" data-tab="tabs${group}-${i}">`);
+                if (this._contents[i]._style.length) { ctx.css.push(`        #win${ctx.count} {${this._contents[i]._style}}`); }
+                await this._contents[i].getContentHtml(ctx, level+2);
+                ctx.html.push(`${pre}    </div>`);
             }
+            ctx.html.push(`${pre}</div>`);
+        } else if (this._kind === "only") {
+            // not tiling, so the content goes right in the pane of this level
+            await this._contents[0].getContentHtml(ctx, level);
+        } else {
+            // html or content at the top level
+            await this.getContentHtml(ctx, level);
         }
     }
 
@@ -259,55 +386,64 @@ class Content {
      */
     async show(level:number=0) {
         let thisLevel:number = level;
-        for (let i = 0; i < this._locations.length; i++) {
-            // creating message with all of the attributes of this class
-            let msg:string = "";
-            for (let j = 0; j < thisLevel*4; j++) { msg = msg.concat(" "); }
-            msg = msg.concat(`${this._locations[i]} `);
-            if (i < this._styles.length) { msg = msg.concat(`style=${this._styles[i]} `); } 
-            if (i < this._sizes.length) { msg = msg.concat(`size=${this._sizes[i]} `); } 
-            if (this._contents[i]._source.length) { msg = msg.concat(`src=${this._contents[i]._source}`);  }
-            print(`${thisLevel} ${msg}`);
-            await this._contents[i].show(level=thisLevel+1); // recursion
+        // creating message with all of the attributes of this class
+        let msg:string = `${" ".repeat(thisLevel*4)}${this._kind} `;
+        if (this._style.length) { msg = msg.concat(`style=${this._style} `); }
+        if (this._size !== undefined) { msg = msg.concat(`size=${this._size} `); }
+        if (this._source.length) { msg = msg.concat(`src=${this._source}`); }
+        if (this._leaf !== undefined) { msg = msg.concat(`type=${this._leaf.type}`); }
+        print(`${thisLevel} ${msg}`);
+        for (let content of this._contents) {
+            await content.show(level=thisLevel+1); // recursion
         }
     }
 }
 
-export async function genHtml(webview:vscode.Webview, config:Config):Promise<string> {
-    // setting the global vars to the inputs so the recursive class can use them
-    _config = config;
-    _webview = webview;
+/**
+ * Generates the html for the viewer from a layout file, throws if the layout can not be read or is invalid
+ * @param webview : webview the html is for
+ * @param config : configuration of the extension
+ * @param layoutFile : layout file to generate the html from, defaults to the layout file in the config directory
+ * @returns html to display
+ */
+export async function genHtml(webview:vscode.Webview, config:Config, layoutFile:string=config.layoutFile):Promise<string> {
+    // a new context for every render, so a render that fails or runs at the same time as another one does not change it
+    let ctx:RenderContext = {"config" : config, "webview" : webview, "layoutDir" : path.dirname(layoutFile), "html" : [], "css" : [], "sizes" : [], "count" : 0};
     // reading from the main format file to get an html template
     print(`Reading format from: ${config.mainHtmlFormatFile}`);
     let format:string = (await fs.promises.readFile(config.mainHtmlFormatFile)).toString();
     
-    try {  
-        print(`Reading layout from ${config.layoutFile}`);
-        // parsing the json
-        let directions = JSON.parse((await fs.promises.readFile(config.layoutFile)).toString());
-        // starting the recursive class that generates the html
-        // must be in this order
-        let obj:Content = new Content(directions);
-        // shifting all of the styles and sizes to their corresponding pane
-        await obj.perculate();
-        // generating the html from the class, recursively
-        await obj.getHtml();
-        // printing it out
-        //await obj.show();
-        // formatting the html template, replaces keywords
-        format = await formatMain(format);
-        // for testing puposes, outputs the html that will be sent to the panel to a file
-        if (true) {
-            try {
-                print(`Writing to: ${config.testCompiledHtmlFile}`);
-                await fs.promises.writeFile(config.testCompiledHtmlFile, format);
-            } catch ( e ) {
-                error(`caught in writing compiled html to file: ${(e as Error).message}`);
-            }
+    print(`Reading layout from ${layoutFile}`);
+    let text:string = (await fs.promises.readFile(layoutFile)).toString();
+    // checking the layout first so every problem is shown in the editor with where it is
+    let problems:vscode.Diagnostic[] = checkLayoutText(layoutFile, text).filter((problem) => problem.severity === vscode.DiagnosticSeverity.Error);
+    if (problems.length) {
+        let more:string = problems.length > 1 ? `, and ${problems.length - 1} more problem(s)` : "";
+        throw new Error(`layout "${layoutFile}" is invalid at ${problems[0].code ?? "(top level)"}: ${problems[0].message}${more}, see the problems panel`);
+    }
+    // parsing the json
+    let directions = JSON.parse(text);
+    // starting the recursive class that generates the html
+    // must be in this order
+    let obj:Content = new Content(directions);
+    // the top level has no pane of its own, so its style goes on its first pane (checking the layout warns about this)
+    if (obj._style.length && obj._contents.length) {
+        obj._contents[0]._style = [obj._style, obj._contents[0]._style].filter((style) => style.length).join(";");
+    }
+    // generating the html from the class, recursively
+    await obj.getHtml(ctx);
+    // printing it out
+    //await obj.show();
+    // formatting the html template, replaces keywords
+    format = await formatMain(ctx, format);
+    // for testing puposes, outputs the html that will be sent to the panel to a file
+    if (true) {
+        try {
+            print(`Writing to: ${config.testCompiledHtmlFile}`);
+            await fs.promises.writeFile(config.testCompiledHtmlFile, format);
+        } catch ( e ) {
+            error(`caught in writing compiled html to file: ${(e as Error).message}`);
         }
-        return format;
-    } catch ( e ) { 
-        error((e as Error).message); 
-        return "";
     }
+    return format;
 }
\ No newline at end of file
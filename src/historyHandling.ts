@@ -0,0 +1,179 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { Config } from "./config";
+import { TriggerMessage } from "./triggerHandling";
+import { resolveLayoutPaths, mapImageSources, isUrl } from "./layoutHandling";
+import { print, error, getLastFromPath } from "./src";
+
+// declaring the type of a recorded run (for ease of use later)
+export type RunRecord = {
+    // name of the directory of the run in the history directory
+    "id" : string,
+    // unix time (in milliseconds) of when the run was recorded
+    "time" : number,
+    // python file that was run and the sha256 hash of its contents at the time of the run
+    "file" : string,
+    "hash" : string,
+    // python interpreter used for the run
+    "python" : string,
+    // message from the trigger file of the run
+    "trigger" : TriggerMessage
+};
+
+// name of the file in each run directory holding the run record
+const recordFileName:string = "run.json";
+
+/**
+ * Gets the directory of a recorded run
+ * @param config : configuration of the extension
+ * @param id : id of the run
+ * @returns path to the directory of the run
+ */
+export function getRunDir(config:Config, id:string):string {
+    return path.join(config.historyDir, id);
+}
+
+/**
+ * Gets the layout file of a recorded run
+ * @param config : configuration of the extension
+ * @param record : the recorded run
+ * @returns path to the layout file of the run
+ */
+export function getRunLayoutFile(config:Config, record:RunRecord):string {
+    return path.join(getRunDir(config, record.id), getLastFromPath(config.layoutFile));
+}
+
+/**
+ * Makes a short description of a recorded run for displaying to the user
+ * @param record : the recorded run
+ * @returns description of the run
+ */
+export function describeRun(record:RunRecord):string {
+    return `${new Date(record.time).toLocaleString()} - ${path.basename(record.file)}`;
+}
+
+/**
+ * Saves the layout and its assets from the config directory into a new directory in the history directory
+ * @param config : configuration of the extension
+ * @param file : python file that was run
+ * @param trigger : message from the trigger file of the run
+ * @returns the record of the run
+ */
+export async function snapshotRun(config:Config, file:string, trigger:TriggerMessage):Promise<RunRecord> {
+    let time:number = Date.now();
+    let record:RunRecord = {
+        "id" : new Date(time).toISOString().replace(/[:.]/g, "-"),
+        "time" : time,
+        "file" : file,
+        "hash" : "",
+        "python" : config.userConfig.python,
+        "trigger" : trigger
+    };
+    let runDir:string = getRunDir(config, record.id);
+    print(`Recording run in ${runDir}`);
+    try {
+        record.hash = crypto.createHash("sha256").update(await fs.promises.readFile(file)).digest("hex");
+        await fs.promises.mkdir(runDir, { recursive : true });
+
+        let text:string = (await fs.promises.readFile(config.layoutFile)).toString();
+        // the copy is in another directory, so the paths of its images are made absolute, the ones of copied assets are pointed at the copies below
+        let layout:any = undefined;
+        try { layout = resolveLayoutPaths(JSON.parse(text), config.configDir); }
+        catch ( e ) { print(`could not read layout "${config.layoutFile}", recording it as it is: ${(e as Error).message}`); }
+        // files in the config directory that belong to the extension and not to a run
+        let reserved:string[] = [
+            config.configFile, config.layoutFile, config.triggerFile, config.testCompiledHtmlFile, config.historyDir, 
+            config.compareLayoutFile, config.cellFile, config.sweepFile, config.sweepLayoutFile, config.requirementsFile, config.doctorFile
+        ].map(getLastFromPath);
+        // the assets are the outputs the python module reported and the images of the layout
+        let assets:Set<string> = new Set<string>(trigger.outputs.map((output) => path.relative(config.configDir, path.resolve(config.configDir, output))));
+        if (layout !== undefined) {
+            mapImageSources(layout, (src) => {
+                if (!(isUrl(src))) { assets.add(path.relative(config.configDir, src)); }
+                return src;
+            });
+        }
+        // path of each copied asset in the config directory and the path of its copy
+        let copies:Map<string, string> = new Map<string, string>();
+        for (let asset of assets) {
+            let source:string = path.join(config.configDir, asset);
+            // skipping anything outside of the config directory or that is not a file
+            if (reserved.indexOf(asset) !== -1 || asset.startsWith("..") || path.isAbsolute(asset)
+                || !(fs.existsSync(source)) || !((await fs.promises.stat(source)).isFile())) { continue; }
+            let destination:string = path.join(runDir, asset);
+            await fs.promises.mkdir(path.dirname(destination), { recursive : true });
+            await fs.promises.copyFile(source, destination);
+            copies.set(source, destination);
+        }
+        // pointing the layout at the copies
+        if (layout !== undefined) { text = JSON.stringify(mapImageSources(layout, (src) => copies.get(src) ?? src), null, 4); }
+        await fs.promises.writeFile(path.join(runDir, getLastFromPath(config.layoutFile)), text);
+        await fs.promises.writeFile(path.join(runDir, recordFileName), JSON.stringify(record, null, 4));
+    } catch ( e ) {
+        error(`could not record run in "${runDir}": ${(e as Error).message}`);
+    }
+    return record;
+}
+
+/**
+ * Gets all of the recorded runs in the history directory
+ * @param config : configuration of the extension
+ * @returns the recorded runs, newest first
+ */
+export async function getRunHistory(config:Config):Promise<RunRecord[]> {
+    let toReturn:RunRecord[] = [];
+    if (!(fs.existsSync(config.historyDir))) { return toReturn; }
+    for (let entry of await fs.promises.readdir(config.historyDir)) {
+        let recordFile:string = path.join(config.historyDir, entry, recordFileName);
+        try {
+            toReturn.push(JSON.parse((await fs.promises.readFile(recordFile)).toString()) as RunRecord);
+        } catch ( e ) {
+            print(`skipping "${entry}" in history, could not read "${recordFile}"`);
+        }
+    }
+    return toReturn.sort((a, b) => b.time - a.time);
+}
+
+/**
+ * Has the user choose recorded runs from a drop down
+ * @param config : configuration of the extension
+ * @param title : title of the drop down
+ * @param canPickMany : whether the user can choose more than one run
+ * @returns the chosen runs, empty if the user chose nothing
+ */
+export async function pickRuns(config:Config, title:string, canPickMany:boolean):Promise<RunRecord[]> {
+    let history:RunRecord[] = await getRunHistory(config);
+    if (!(history.length)) {
+        error("There are no recorded runs, execute a python file first");
+    }
+    // creating an array of the runs to display to the user
+    let arr:(vscode.QuickPickItem & {"record" : RunRecord})[] = history.map((record) => {
+        return {
+            label : describeRun(record),
+            description : record.trigger.status === "error" ? "failed" : undefined,
+            detail : `${record.file} with "${record.python}"`,
+            record : record
+        };
+    });
+    if (canPickMany) {
+        let result = await vscode.window.showQuickPick(arr, { title : title, canPickMany : true });
+        return result === undefined ? [] : result.map((item) => item.record);
+    }
+    let result = await vscode.window.showQuickPick(arr, { title : title });
+    return result === undefined ? [] : [result.record];
+}
+
+/**
+ * Deletes recorded runs from the history directory
+ * @param config : configuration of the extension
+ * @param records : runs to delete
+ */
+export async function deleteRuns(config:Config, records:RunRecord[]) {
+    for (let record of records) {
+        print(`Deleting recorded run ${record.id}`);
+        try { await fs.promises.rm(getRunDir(config, record.id), { recursive : true, force : true }); }
+        catch ( e ) { error(`could not delete recorded run "${record.id}": ${(e as Error).message}`); }
+    }
+}
@@ -0,0 +1,438 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { settingsSection } from "./config";
+import { print } from "./src";
+
+// the problems of the layout files shown in the editor
+export let layoutDiagnostics = vscode.languages.createDiagnosticCollection("uc-quantum-lab-layout");
+
+// declaring the types of a problem in a layout and where a value is in a json file (for ease of use later)
+export type LayoutProblem = {"path" : string, "message" : string, "severity" : vscode.DiagnosticSeverity};
+type JsonLocation = {"key" : [number, number]|undefined, "value" : [number, number]};
+
+// the keys of each kind of level, a level is one kind and "style" can be with any of them
+const splits:string[][] = [["left", "right"], ["top", "bottom"], ["only"], ["row"], ["column"], ["grid"], ["tabs"]];
+// the kinds of levels Resizable.js lays out, they can not be inside a grid or tabs because it only finds panes outside of them
+const resizableKeys:string[] = ["left", "right", "top", "bottom", "row", "column"];
+// describes the kinds of levels for messages
+const kindsText:string = `"left" and "right", "top" and "bottom", "row", "column", "grid", "tabs", or "only"`;
+// the fields of each type of content, "type" and "style" can be with any of them
+const leafFields:{[type:string] : {"required" : string[], "optional" : string[]}} = {
+    "image" : {"required" : ["src"], "optional" : ["alt"]},
+    "markdown" : {"required" : ["text"], "optional" : []},
+    "latex" : {"required" : ["text"], "optional" : []},
+    "table" : {"required" : ["rows"], "optional" : ["header"]},
+    "html" : {"required" : ["html"], "optional" : []}
+};
+
+/**
+ * Makes the path of a value in a json object
+ * @param parent : path of the object the value is in, "" for the top level
+ * @param key : key of the value in the object
+ * @returns the path, like "left.top"
+ */
+function joinPath(parent:string, key:string):string {
+    return parent.length ? `${parent}.${key}` : key;
+}
+
+/**
+ * Describes a path to the user
+ * @param jsonPath : the path
+ * @returns the description
+ */
+export function describePath(jsonPath:string):string {
+    return jsonPath.length ? `"${jsonPath}"` : "the top level";
+}
+
+/**
+ * Splits the "style" of a level into its css and its size, the size is not css, it is the fraction of the parent the
+ * pane takes up
+ * @param style : the style, like "size:0.3;background-color:white;"
+ * @returns the css without the size, the size (NaN if it is not a number), and the text of the size (undefined if there is none)
+ */
+export function splitStyle(style:string):{"css" : string, "size" : number|undefined, "sizeText" : string|undefined} {
+    let components:string[] = style.split(";");
+    // only a declaration of "size" itself, not css like "font-size"
+    let index:number = components.findIndex((part) => /^\s*size\s*:/.test(part));
+    if (index === -1) { return {"css" : style, "size" : undefined, "sizeText" : undefined}; }
+    let sizeText:string = components[index];
+    components.splice(index, 1);
+    let size:number = +(sizeText.slice(sizeText.indexOf(":")+1).trim());
+    return {"css" : components.join(";"), "size" : size, "sizeText" : sizeText.trim()};
+}
+
+/**
+ * Checks if the src of an image is a url instead of a path
+ * @param src : the src
+ * @returns whether it is a url or an inline image
+ */
+export function isUrl(src:string):boolean {
+    return /^(https?:|data:|vscode-)/i.test(src);
+}
+
+/**
+ * Changes the src of every image in a layout
+ * @param obj : the layout
+ * @param change : gets the new src of an image from its src
+ * @returns a copy of the layout with the new srcs
+ */
+export function mapImageSources(obj:any, change:(src:string) => string):any {
+    if (typeof obj !== "object" || obj === null) { return obj; }
+    if (Array.isArray(obj)) { return obj.map((pane) => mapImageSources(pane, change)); }
+    if (obj.type !== undefined) {
+        return obj.type === "image" && typeof obj.src === "string" ? {...obj, "src" : change(obj.src)} : obj;
+    }
+    let toReturn:any = {};
+    for (let key of Object.keys(obj)) {
+        if (key === "tabs" && typeof obj.tabs === "object" && obj.tabs !== null && !(Array.isArray(obj.tabs))) {
+            toReturn.tabs = {};
+            for (let label of Object.keys(obj.tabs)) { toReturn.tabs[label] = mapImageSources(obj.tabs[label], change); }
+        } else {
+            toReturn[key] = splits.some((split) => split.indexOf(key) !== -1) ? mapImageSources(obj[key], change) : obj[key];
+        }
+    }
+    return toReturn;
+}
+
+/**
+ * Makes the paths of the images in a layout absolute, for putting a layout inside of a layout in another directory
+ * @param obj : the layout
+ * @param baseDir : directory the paths are relative to, the directory of the layout file
+ * @returns a copy of the layout with absolute paths
+ */
+export function resolveLayoutPaths(obj:any, baseDir:string):any {
+    return mapImageSources(obj, (src) => isUrl(src) ? src : path.resolve(baseDir, src));
+}
+
+/**
+ * Gets the panes of a level and their paths, like the two panes of "left" and "right" or each pane of a "row"
+ * @param obj : the level
+ * @param jsonPath : path of the level in the file
+ * @returns the panes and their paths, in the order of the keys of the level
+ */
+function getPanes(obj:any, jsonPath:string):[any, string][] {
+    let toReturn:[any, string][] = [];
+    for (let key of Object.keys(obj)) {
+        let at:string = joinPath(jsonPath, key);
+        if (["row", "column", "grid"].indexOf(key) !== -1) {
+            if (Array.isArray(obj[key])) { obj[key].forEach((pane:any, i:number) => toReturn.push([pane, `${at}[${i}]`])); }
+        } else if (key === "tabs") {
+            if (typeof obj.tabs === "object" && obj.tabs !== null && !(Array.isArray(obj.tabs))) {
+                Object.keys(obj.tabs).forEach((label) => toReturn.push([obj.tabs[label], joinPath(at, label)]));
+            }
+        } else if (splits.some((split) => split.indexOf(key) !== -1)) {
+            toReturn.push([obj[key], at]);
+        }
+    }
+    return toReturn;
+}
+
+/**
+ * Checks the "style" of a level
+ * @param style : the style
+ * @param at : path of the style in the file
+ * @param inFlow : whether the level is inside a grid or tabs, where panes can not be sized
+ * @returns the problems, empty if the style is valid
+ */
+function validateStyle(style:any, at:string, inFlow:boolean):LayoutProblem[] {
+    let toReturn:LayoutProblem[] = [];
+    let problem = (message:string, severity:vscode.DiagnosticSeverity=vscode.DiagnosticSeverity.Error) => {
+        toReturn.push({"path" : at, "message" : message, "severity" : severity});
+    };
+    if (typeof style !== "string") {
+        problem(`"style" must be a string of css`);
+        return toReturn;
+    }
+    let parts = splitStyle(style);
+    if (parts.sizeText !== undefined && (parts.size === undefined || isNaN(parts.size) || parts.size < 0 || parts.size > 1)) {
+        problem(`"${parts.sizeText}" in ${describePath(at)} must be like "size:0.5", a fraction between 0 and 1`);
+    } else if (parts.sizeText !== undefined && inFlow) {
+        problem(`"${parts.sizeText}" in ${describePath(at)} does nothing, panes in a grid or tabs can not be sized`, vscode.DiagnosticSeverity.Warning);
+    }
+    return toReturn;
+}
+
+/**
+ * Checks content with a "type", like {"type" : "image", "src" : "counts.png"}
+ * @param obj : the content
+ * @param jsonPath : path of the content in the file
+ * @param inFlow : whether the content is inside a grid or tabs
+ * @returns the problems, empty if the content is valid
+ */
+function validateLeaf(obj:any, jsonPath:string, inFlow:boolean):LayoutProblem[] {
+    let toReturn:LayoutProblem[] = [];
+    let problem = (at:string, message:string, severity:vscode.DiagnosticSeverity=vscode.DiagnosticSeverity.Error) => {
+        toReturn.push({"path" : at, "message" : message, "severity" : severity});
+    };
+    let types:string = Object.keys(leafFields).map((type) => `"${type}"`).join(", ");
+    let fields = typeof obj.type === "string" ? leafFields[obj.type] : undefined;
+    if (fields === undefined) {
+        problem(joinPath(jsonPath, "type"), `"type" must be one of ${types}`);
+    } else {
+        for (let key of fields.required.filter((key) => obj[key] === undefined)) {
+            problem(jsonPath, `${describePath(jsonPath)} is missing "${key}", content of type "${obj.type}" needs it`);
+        }
+    }
+    for (let key of Object.keys(obj)) {
+        let at:string = joinPath(jsonPath, key);
+        if (key === "type") { continue; }
+        if (key === "style") {
+            toReturn = toReturn.concat(validateStyle(obj.style, at, inFlow));
+            // the top level has no pane for the style to go on
+            if (!(jsonPath.length)) { problem(at, `"style" at the top level does nothing, the viewer has no pane for it`, vscode.DiagnosticSeverity.Warning); }
+        } else if (splits.some((split) => split.indexOf(key) !== -1)) {
+            problem(at, `"${key}" can not be with "type", content can not be split`);
+        } else if (fields !== undefined && fields.required.concat(fields.optional).indexOf(key) === -1) {
+            problem(at, `unknown key "${key}" is ignored, content of type "${obj.type}" has ${fields.required.concat(fields.optional, ["style"]).map((field) => `"${field}"`).join(", ")}`, vscode.DiagnosticSeverity.Warning);
+        } else if (key === "rows") {
+            if (!(Array.isArray(obj.rows)) || !(obj.rows.every((row:any) => Array.isArray(row)) || obj.rows.every((row:any) => typeof row === "object" && row !== null && !(Array.isArray(row))))) {
+                problem(at, `"rows" must be a list of rows, each a list of cells (like [[1, 2], [3, 4]]) or an object with the header of each cell as its key`);
+            }
+        } else if (key === "header") {
+            if (!(Array.isArray(obj.header)) || !(obj.header.every((cell:any) => typeof cell === "string"))) {
+                problem(at, `"header" must be a list of strings`);
+            }
+        } else if (typeof obj[key] !== "string") {
+            problem(at, `"${key}" must be a string`);
+        }
+    }
+    return toReturn;
+}
+
+/**
+ * Checks a layout the way the viewer reads it, every problem is found instead of stopping at the first one
+ * @param obj : the parsed layout
+ * @param jsonPath : path of the layout in the file, "" for the top level
+ * @param inFlow : whether the layout is inside a grid or tabs, where panes can not be resized
+ * @returns the problems, empty if the layout is valid
+ */
+export function validateLayout(obj:any, jsonPath:string="", inFlow:boolean=false):LayoutProblem[] {
+    let toReturn:LayoutProblem[] = [];
+    let problem = (at:string, message:string, severity:vscode.DiagnosticSeverity=vscode.DiagnosticSeverity.Error) => {
+        toReturn.push({"path" : at, "message" : message, "severity" : severity});
+    };
+    // html
+    if (typeof obj === "string") { return toReturn; }
+    if (typeof obj !== "object" || obj === null || Array.isArray(obj)) {
+        problem(jsonPath, `${describePath(jsonPath)} must be html, content with a "type", or an object with ${kindsText}`);
+        return toReturn;
+    }
+    // content like an image or a table
+    if (obj.type !== undefined) { return validateLeaf(obj, jsonPath, inFlow); }
+
+    let keys:string[] = Object.keys(obj);
+    // the kinds of levels the keys belong to
+    let used:string[][] = splits.filter((split) => split.some((key) => keys.indexOf(key) !== -1));
+    if (!(used.length)) {
+        problem(jsonPath, `${describePath(jsonPath)} needs ${kindsText}, or "type" for content`);
+    } else if (used.length > 1) {
+        problem(jsonPath, `${describePath(jsonPath)} can only have one of ${kindsText}, it has ${used.map((split) => split.filter((key) => keys.indexOf(key) !== -1).map((key) => `"${key}"`).join(" and ")).join(" and ")}`);
+    } else {
+        for (let key of used[0].filter((key) => keys.indexOf(key) === -1)) {
+            problem(jsonPath, `${describePath(jsonPath)} is missing "${key}" to go with "${used[0].find((other) => keys.indexOf(other) !== -1)}"`);
+        }
+    }
+
+    for (let key of keys) {
+        let at:string = joinPath(jsonPath, key);
+        if (key === "style") {
+            toReturn = toReturn.concat(validateStyle(obj.style, at, inFlow));
+            // the style of a level goes on its pane in the parent, the top level has no parent so the viewer puts it on the first pane
+            if (!(jsonPath.length)) {
+                problem(at, `"style" at the top level is applied to the first pane instead of the whole viewer, move it into that pane`, vscode.DiagnosticSeverity.Warning);
+            }
+        } else if (key === "columns") {
+            if (keys.indexOf("grid") === -1) {
+                problem(at, `"columns" is only used with "grid", it is ignored`, vscode.DiagnosticSeverity.Warning);
+            } else if (!(Number.isInteger(obj.columns)) || obj.columns < 1) {
+                problem(at, `"columns" must be a whole number of columns, like 3`);
+            }
+        } else if (["row", "column", "grid"].indexOf(key) !== -1) {
+            if (!(Array.isArray(obj[key])) || !(obj[key].length)) {
+                problem(at, `"${key}" must be a list of panes, like ["<h1>first</h1>", "<h1>second</h1>"]`);
+            } else if (key !== "grid" && obj[key].length < 2) {
+                problem(at, `"${key}" needs at least two panes, use "only" for one`);
+            }
+        } else if (key === "tabs") {
+            if (typeof obj.tabs !== "object" || obj.tabs === null || Array.isArray(obj.tabs) || !(Object.keys(obj.tabs).length)) {
+                problem(at, `"tabs" must be an object with the label of each tab as the key of its pane, like {"counts" : "<h1>counts</h1>"}`);
+            }
+        } else if (splits.every((split) => split.indexOf(key) === -1)) {
+            problem(at, `unknown key "${key}" is ignored, the keys are "left", "right", "top", "bottom", "row", "column", "grid" (with "columns"), "tabs", "only", "type", and "style"`, vscode.DiagnosticSeverity.Warning);
+        }
+        // Resizable.js only lays out panes it can reach through the panes it resizes
+        if (inFlow && resizableKeys.indexOf(key) !== -1) {
+            problem(at, `"${key}" can not be inside a grid or tabs, the viewer can not resize panes in them (use a grid or tabs inside "${key}" instead)`);
+        }
+    }
+
+    let panes:[any, string][] = getPanes(obj, jsonPath);
+    for (let [pane, at] of panes) {
+        toReturn = toReturn.concat(validateLayout(pane, at, inFlow || keys.indexOf("grid") !== -1 || keys.indexOf("tabs") !== -1));
+    }
+    // the panes of a split share it, ones without a size get an equal part of what is left
+    if (used.length === 1 && panes.length > 1 && keys.some((key) => resizableKeys.indexOf(key) !== -1)) {
+        let sizes:number[] = panes.map(([pane]) => typeof pane === "object" && pane !== null && typeof pane.style === "string" ? splitStyle(pane.style).size : undefined)
+            .filter((size) => size !== undefined && !(isNaN(size))) as number[];
+        let total:number = sizes.reduce((sum, size) => sum + size, 0);
+        if (total > 1.001 || (sizes.length === panes.length && Math.abs(total - 1) > 0.001)) {
+            problem(jsonPath, `the sizes of the panes of ${describePath(jsonPath)} add up to ${+(total.toFixed(3))} instead of 1, they are scaled to fill it`, vscode.DiagnosticSeverity.Warning);
+        }
+    }
+    return toReturn;
+}
+
+/**
+ * Finds where every value of a json file is in its text, the text must be valid json
+ * @param text : text of the json file
+ * @returns the offsets of the key and value at each path
+ */
+function locateJson(text:string):Map<string, JsonLocation> {
+    let toReturn:Map<string, JsonLocation> = new Map<string, JsonLocation>();
+    let i:number = 0;
+    let skip = () => { while (i < text.length && /\s/.test(text[i])) { i++; } };
+    let readString = ():string => {
+        let start:number = i++;
+        while (i < text.length && text[i] !== "\"") { i += text[i] === "\\" ? 2 : 1; }
+        i++;
+        return JSON.parse(text.slice(start, i));
+    };
+    let readValue = (jsonPath:string, key:[number, number]|undefined) => {
+        skip();
+        let start:number = i;
+        if (text[i] === "{" || text[i] === "[") {
+            let isObject:boolean = text[i] === "{";
+            let close:string = isObject ? "}" : "]";
+            let index:number = 0;
+            i++;
+            skip();
+            while (i < text.length && text[i] !== close) {
+                if (isObject) {
+                    let keyStart:number = i;
+                    let name:string = readString();
+                    let keyRange:[number, number] = [keyStart, i];
+                    skip();
+                    i++; // the ":"
+                    readValue(joinPath(jsonPath, name), keyRange);
+                } else {
+                    readValue(`${jsonPath}[${index++}]`, undefined);
+                }
+                skip();
+                if (text[i] === ",") { i++; }
+                skip();
+            }
+            i++;
+        } else if (text[i] === "\"") {
+            readString();
+        } else {
+            while (i < text.length && !(/[\s,\]}]/.test(text[i]))) { i++; }
+        }
+        toReturn.set(jsonPath, {"key" : key, "value" : [start, i]});
+    };
+    readValue("", undefined);
+    return toReturn;
+}
+
+/**
+ * Finds the line and column of an offset in a text
+ * @param text : the text
+ * @param offset : the offset
+ * @returns the position of the offset
+ */
+function positionAt(text:string, offset:number):vscode.Position {
+    let lines:string[] = text.slice(0, offset).split("\n");
+    return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+}
+
+/**
+ * Checks the text of a layout file
+ * @param text : text of the layout file
+ * @returns the problems of the layout as diagnostics
+ */
+export function getLayoutDiagnostics(text:string):vscode.Diagnostic[] {
+    let obj:any;
+    try {
+        obj = JSON.parse(text);
+    } catch ( e ) {
+        // the json itself is broken, node says where as an offset or as a line and column depending on its version
+        let offset:RegExpMatchArray|null = (e as Error).message.match(/at position (\d+)/);
+        let lineColumn:RegExpMatchArray|null = (e as Error).message.match(/line (\d+) column (\d+)/);
+        let position:vscode.Position = new vscode.Position(0, 0);
+        if (lineColumn !== null) { position = new vscode.Position(+lineColumn[1] - 1, +lineColumn[2] - 1); }
+        else if (offset !== null) { position = positionAt(text, +offset[1]); }
+        let diagnostic:vscode.Diagnostic = new vscode.Diagnostic(new vscode.Range(position, position), (e as Error).message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = "UC Quantum Lab";
+        return [diagnostic];
+    }
+    let locations:Map<string, JsonLocation> = locateJson(text);
+    return validateLayout(obj).map((problem) => {
+        // pointing at the key of the value if it has one, it is shorter than the value
+        let location:JsonLocation|undefined = locations.get(problem.path);
+        let offsets:[number, number] = location?.key ?? location?.value ?? [0, 0];
+        // values that span lines are only marked on their first line
+        let lineEnd:number = text.slice(0, offsets[1]).indexOf("\n", offsets[0]);
+        if (lineEnd !== -1) { offsets = [offsets[0], text[lineEnd - 1] === "\r" ? lineEnd - 1 : lineEnd]; }
+        let diagnostic:vscode.Diagnostic = new vscode.Diagnostic(new vscode.Range(positionAt(text, offsets[0]), positionAt(text, offsets[1])), problem.message, problem.severity);
+        diagnostic.source = "UC Quantum Lab";
+        diagnostic.code = problem.path.length ? problem.path : "(top level)";
+        return diagnostic;
+    });
+}
+
+/**
+ * Gets whether a document is a layout file the viewer reads, layout files made by the python module or this
+ * extension are in the config directory
+ * @param document : the document
+ * @returns whether the document is a layout file
+ */
+export function isLayoutFile(document:vscode.TextDocument):boolean {
+    if (document.uri.scheme !== "file" || path.extname(document.fileName) !== ".json") { return false; }
+    let folder:vscode.WorkspaceFolder|undefined = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (folder === undefined) { return false; }
+    let configDir:string = path.join(folder.uri.fsPath, vscode.workspace.getConfiguration(settingsSection, folder.uri).get<string>("configDirectory", ".UCQ_config"));
+    let relative:string = path.relative(configDir, document.fileName);
+    // the layout in the config directory and the layouts of recorded runs
+    return relative === "layout.json" || /^history[\\/][^\\/]+[\\/]layout\.json$/.test(relative);
+}
+
+/**
+ * Shows the problems of a layout file in the editor
+ * @param document : the layout file
+ * @returns the problems
+ */
+export function checkLayout(document:vscode.TextDocument):vscode.Diagnostic[] {
+    let diagnostics:vscode.Diagnostic[] = getLayoutDiagnostics(document.getText());
+    print(`found ${diagnostics.length} problem(s) in layout "${document.fileName}"`);
+    layoutDiagnostics.set(document.uri, diagnostics);
+    return diagnostics;
+}
+
+/**
+ * Shows the problems of the saved text of a layout file in the editor, for layouts read from the disk
+ * @param layoutFile : path of the layout file
+ * @param text : the saved text of the layout file
+ * @returns the problems
+ */
+export function checkLayoutText(layoutFile:string, text:string):vscode.Diagnostic[] {
+    let diagnostics:vscode.Diagnostic[] = getLayoutDiagnostics(text);
+    print(`found ${diagnostics.length} problem(s) in layout "${layoutFile}"`);
+    // an open layout with changes that are not saved is checked as it is edited, the saved text is out of date
+    let uri:vscode.Uri = vscode.Uri.file(layoutFile);
+    if (!(vscode.workspace.textDocuments.some((document) => document.isDirty && document.uri.toString() === uri.toString()))) {
+        layoutDiagnostics.set(uri, diagnostics);
+    }
+    return diagnostics;
+}
+
+/**
+ * Checks layout files as they are opened and changed
+ * @returns disposable that stops checking
+ */
+export function watchLayouts():vscode.Disposable {
+    vscode.workspace.textDocuments.filter(isLayoutFile).forEach(checkLayout);
+    return vscode.Disposable.from(
+        layoutDiagnostics,
+        vscode.workspace.onDidOpenTextDocument((document) => { if (isLayoutFile(document)) { checkLayout(document); } }),
+        vscode.workspace.onDidChangeTextDocument((event) => { if (isLayoutFile(event.document)) { checkLayout(event.document); } })
+    );
+}
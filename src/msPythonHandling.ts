@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+import { settingsSection } from "./config";
+import { print } from "./src";
+
+// id of the Microsoft Python extension
+const msPythonId:string = "ms-python.python";
+
+// declaring the parts of the api exported by the Python extension that are used here (for ease of use later), newer
+// versions have "environments" and older versions only have "settings"
+type MsPythonApi = {
+    "environments"? : {
+        getActiveEnvironmentPath(resource?:vscode.Uri) : {"id" : string, "path" : string},
+        resolveEnvironment(environment:{"id" : string, "path" : string}|string) : Promise<{"executable" : {"uri" : vscode.Uri|undefined}}|undefined>,
+        onDidChangeActiveEnvironmentPath : vscode.Event<{"path" : string, "resource" : vscode.WorkspaceFolder|vscode.Uri|undefined}>
+    },
+    "settings"? : {
+        getExecutionDetails(resource?:vscode.Uri) : {"execCommand" : string[]|undefined},
+        onDidChangeExecutionDetails : vscode.Event<vscode.Uri|undefined>
+    }
+};
+
+/**
+ * Gets the api of the Python extension, activating it if need be
+ * @returns the api, undefined if the Python extension is not installed or did not activate
+ */
+async function getMsPythonApi():Promise<MsPythonApi|undefined> {
+    let extension:vscode.Extension<MsPythonApi>|undefined = vscode.extensions.getExtension<MsPythonApi>(msPythonId);
+    if (extension === undefined) { return undefined; }
+    try {
+        return extension.isActive ? extension.exports : await extension.activate();
+    } catch ( e ) {
+        print(`could not activate the Python extension: ${(e as Error).message}`);
+        return undefined;
+    }
+}
+
+/**
+ * Gets whether the interpreter selected in the Python extension should be used for a workspace folder
+ * @param folder : the workspace folder
+ * @returns whether the Python extension is installed and "uc-quantum-lab.usePythonExtension" is on
+ */
+export function isMsPythonEnabled(folder:vscode.WorkspaceFolder|undefined):boolean {
+    return vscode.workspace.getConfiguration(settingsSection, folder?.uri).get<boolean>("usePythonExtension", true)
+        && vscode.extensions.getExtension(msPythonId) !== undefined;
+}
+
+/**
+ * Gets the python interpreter selected in the Python extension for a workspace folder
+ * @param folder : the workspace folder
+ * @returns path of the interpreter, undefined if there is none or the integration is off
+ */
+export async function getMsPythonInterpreter(folder:vscode.WorkspaceFolder|undefined):Promise<string|undefined> {
+    if (!(isMsPythonEnabled(folder))) { return undefined; }
+    let api:MsPythonApi|undefined = await getMsPythonApi();
+    try {
+        if (api?.environments !== undefined) {
+            let environment = await api.environments.resolveEnvironment(api.environments.getActiveEnvironmentPath(folder?.uri));
+            return environment?.executable.uri?.fsPath;
+        } else if (api?.settings !== undefined) {
+            // a command with arguments (like "conda run") is not a path to an interpreter, so it can not be used
+            let command:string[]|undefined = api.settings.getExecutionDetails(folder?.uri).execCommand;
+            return command?.length === 1 ? command[0] : undefined;
+        }
+    } catch ( e ) {
+        print(`could not get the interpreter selected in the Python extension: ${(e as Error).message}`);
+    }
+    return undefined;
+}
+
+/**
+ * Calls a function when the interpreter selected in the Python extension changes
+ * @param listener : function to call with the workspace folder that changed, undefined if it could be any of them
+ * @returns disposable that stops listening, does nothing if the Python extension is not installed
+ */
+export async function onDidChangeMsPythonInterpreter(listener:(folder:vscode.WorkspaceFolder|undefined) => void):Promise<vscode.Disposable> {
+    let api:MsPythonApi|undefined = await getMsPythonApi();
+    // the resource of an event is a uri, a workspace folder, or nothing depending on the version of the Python extension
+    let toFolder = (resource:vscode.WorkspaceFolder|vscode.Uri|undefined) => {
+        if (resource === undefined) { return undefined; }
+        return resource instanceof vscode.Uri ? vscode.workspace.getWorkspaceFolder(resource) : resource;
+    };
+    if (api?.environments !== undefined) {
+        return api.environments.onDidChangeActiveEnvironmentPath((event) => listener(toFolder(event.resource)));
+    } else if (api?.settings !== undefined) {
+        return api.settings.onDidChangeExecutionDetails((resource) => listener(toFolder(resource)));
+    }
+    return new vscode.Disposable(() => {});
+}
@@ -2,56 +2,111 @@ import * as vscode from "vscode";
 import * as path from 'path';
 import { Config } from "./config";
 import { genHtml } from "./getHtml";
-import { print } from "./src";
+import { TriggerMessage } from "./triggerHandling";
+import { RunRecord, getRunLayoutFile, describeRun } from "./historyHandling";
+import { print, escapeHtml } from "./src";
 
 /**
  * Class for the viewer panel
  */
 export class UCQ {
     /**
-     * Track the currently panel. Only allow a single panel to exist at a time.
+     * Track the open panels by workspace folder, all of the folders share the panel with key "" unless
+     * "uc-quantum-lab.panelPerFolder" is set
      */
-    public static currentPanel: UCQ | undefined;
+    public static panels: Map<string, UCQ> = new Map<string, UCQ>();
     public static readonly viewType = "uc-quantum-lab";
+    public static readonly title = "UCQ Viewer";
     private readonly _panel: vscode.WebviewPanel;
+    private readonly _key: string;
     private _disposables: vscode.Disposable[] = [];
     public _config:Config;
+    // message from the trigger file of the last run
+    private _lastRun:TriggerMessage|undefined;
+    // layout file being shown and a description of it for the title, undefined if showing the latest results
+    private _layoutFile:string|undefined;
+    private _subtitle:string|undefined;
+
+    /**
+     * Gets the key of the panel for a configuration
+     * @param config : configuration of this extension
+     * @returns the workspace folder path if each folder has its own panel, otherwise ""
+     */
+    private static _getKey(config:Config):string {
+        return vscode.workspace.getConfiguration("uc-quantum-lab").get<boolean>("panelPerFolder", false) ? config.workspacePath : "";
+    }
+
+    /**
+     * Gets the panel for the workspace folder of a configuration
+     * @param config : configuration of this extension
+     * @returns the panel, undefined if it is not open
+     */
+    public static getPanel(config:Config):UCQ|undefined {
+        let panel:UCQ|undefined = UCQ.panels.get(UCQ._getKey(config));
+        panel?._useConfig(config);
+        return panel;
+    }
+
+    /**
+     * Gets the directories a panel can load content from
+     * @param config : configuration of this extension
+     * @param key : key of the panel in the panels map
+     * @returns the workspace folders the panel shows and the install path of this extension
+     */
+    private static _getRoots(config:Config, key:string):vscode.Uri[] {
+        // a shared panel must be able to load content from every workspace folder, including ones added after it was made
+        let roots:vscode.Uri[] = key === "" && vscode.workspace.workspaceFolders !== undefined 
+                                 ? vscode.workspace.workspaceFolders.map((folder) => folder.uri) 
+                                 : [];
+        if (!(roots.some((root) => root.fsPath === config.workspacePath))) { roots.push(vscode.Uri.file(config.workspacePath)); }
+        return roots.concat([vscode.Uri.file(path.join(config.extensionInstallPath))]);
+    }
+
+    /**
+     * Gets the panel the user is looking at
+     * @returns the active panel, undefined if no panel is active
+     */
+    public static getActivePanel():UCQ|undefined {
+        return Array.from(UCQ.panels.values()).find((panel) => panel._panel.active);
+    }
 
     public static createOrShow(config:Config) {
         const column = vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : undefined;
+        let key:string = UCQ._getKey(config);
 
         // If we already have a panel, show it.
-        if (UCQ.currentPanel) {
-            UCQ.currentPanel._panel.reveal(column);
-            UCQ.currentPanel.update();
+        let existing:UCQ|undefined = UCQ.panels.get(key);
+        if (existing) {
+            existing._useConfig(config);
+            existing._panel.reveal(column);
+            existing.update().catch((e) => print(`could not update the viewer: ${(e as Error).message}`));
             return;
         }
 
         // Otherwise, create a new panel.
         const panel = vscode.window.createWebviewPanel(
             UCQ.viewType,
-            "UCQ Viewer ",
+            UCQ.title,
             {viewColumn : vscode.ViewColumn.Two, preserveFocus : false},
             {
                 // Enable javascript in the webview
                 enableScripts : true,
-                // And restrict the webview to only loading content from our extension's install path and the workspace folder.
-                localResourceRoots: [
-                     vscode.Uri.file(config.workspacePath),
-                     vscode.Uri.file(path.join(config.extensionInstallPath))
-                ],
+                // And restrict the webview to only loading content from our extension's install path and the workspace folders.
+                localResourceRoots: UCQ._getRoots(config, key),
             }
         );
         print("Creating new Window");
-        UCQ.currentPanel = new UCQ(panel, config);
+        UCQ.panels.set(key, new UCQ(panel, config, key));
     }
 
     /**
-     * Destroys the panel
+     * Destroys the panels
+     * @param workspacePath : only destroys the panels showing this workspace folder if provided
      */
-    public static kill() {
-        UCQ.currentPanel?.dispose();
-        UCQ.currentPanel = undefined;
+    public static kill(workspacePath?:string) {
+        for (let panel of Array.from(UCQ.panels.values())) {
+            if (workspacePath === undefined || panel._config.workspacePath === workspacePath) { panel.dispose(); }
+        }
     }
 
     /**
@@ -60,30 +115,48 @@ export class UCQ {
      * @param config : configuration of this extension
      */
     public static revive(panel: vscode.WebviewPanel, config:Config) {
-        UCQ.currentPanel = new UCQ(panel, config);
+        let key:string = UCQ._getKey(config);
+        UCQ.panels.set(key, new UCQ(panel, config, key));
     }
 
     /**
      * Constructs this class
      * @param panel : panel to construct this class with
      * @param config : configuration of this extension
+     * @param key : key of this panel in the panels map
      */
-    private constructor(panel: vscode.WebviewPanel, config:Config) {
+    private constructor(panel: vscode.WebviewPanel, config:Config, key:string) {
         this._panel = panel;
         this._config = config;
+        this._key = key;
         // Set the webview's initial html content
-        this.update();
+        this.update().catch((e) => print(`could not update the viewer: ${(e as Error).message}`));
 
         // Listen for when the panel is disposed
         // This happens when the user closes the panel or when the panel is closed programatically
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
     }
 
+    /**
+     * Switches a shared panel to the workspace folder of a configuration, so the results of a run in another folder
+     * are not shown with the layout of the folder the panel was showing
+     * @param config : configuration of this extension for the workspace folder being used
+     */
+    private _useConfig(config:Config) {
+        if (this._config.workspacePath === config.workspacePath) { return; }
+        print(`Switching the viewer to ${config.workspacePath}`);
+        this._config = config;
+        this._lastRun = undefined;
+        this._layoutFile = undefined;
+        this._subtitle = undefined;
+        this._panel.webview.options = {...this._panel.webview.options, localResourceRoots : UCQ._getRoots(config, this._key)};
+    }
+
     /**
      * destroys this class
      */
     public dispose() {
-        UCQ.currentPanel = undefined;
+        if (UCQ.panels.get(this._key) === this) { UCQ.panels.delete(this._key); }
 
         // Clean up our resources
         this._panel.dispose();
@@ -96,13 +169,85 @@ export class UCQ {
 
     /**
      * Updates the panel with new html
+     * @param lastRun : message from the trigger file of the run to show, if the run failed its error is shown instead of the layout
      */
-    public async update() {
-        // updates user options
-        this._panel.webview.html = await this._getHtmlForWebview();
+    public async update(lastRun?:TriggerMessage) {
+        if (lastRun !== undefined) {
+            // a new run always shows the latest results
+            this._lastRun = lastRun;
+            this._layoutFile = undefined;
+            this._subtitle = undefined;
+        }
+        // naming the workspace folder in the title if there is more than one
+        let title:string = UCQ.title;
+        if (vscode.workspace.workspaceFolders !== undefined && vscode.workspace.workspaceFolders.length > 1) {
+            title = `${title} - ${path.basename(this._config.workspacePath)}`;
+        }
+        this._panel.title = this._subtitle === undefined ? title : `${title} (${this._subtitle})`;
+        // showing the error of the last run instead of a layout that is out of date
+        if (this._lastRun !== undefined && this._lastRun.status === "error" && this._lastRun.error !== undefined) {
+            this.showError(`${this._lastRun.error.type}: ${this._lastRun.error.message}`, this._lastRun.error.traceback);
+            return;
+        }
+        // updates user options, a layout that can not be shown is replaced with what went wrong
+        try {
+            this._panel.webview.html = await this._getHtmlForWebview();
+        } catch ( e ) {
+            this.showError("Could not show the layout", (e as Error).message);
+            return;
+        }
         print("Updating webview panel");
     }
 
+    /**
+     * Shows the results of a recorded run in the panel
+     * @param record : the recorded run to show
+     */
+    public async showRun(record:RunRecord) {
+        print(`Showing recorded run ${record.id}`);
+        this._layoutFile = getRunLayoutFile(this._config, record);
+        this._subtitle = describeRun(record);
+        this._lastRun = record.trigger;
+        await this.update();
+    }
+
+    /**
+     * Shows a layout file that is not from a run in the panel, like the comparison of two runs
+     * @param layoutFile : layout file to show
+     * @param subtitle : description of the layout to put in the title of the panel
+     */
+    public async showLayout(layoutFile:string, subtitle:string) {
+        print(`Showing layout ${layoutFile}`);
+        this._layoutFile = layoutFile;
+        this._subtitle = subtitle;
+        this._lastRun = undefined;
+        await this.update();
+    }
+
+    /**
+     * Replaces the contents of the panel with an error pane
+     * @param title : short description of what went wrong
+     * @param details : longer text to show under the title, like the stderr of a run
+     */
+    public showError(title:string, details:string) {
+        print(`Showing error in webview panel: ${title}`);
+        this._panel.webview.html = `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <style>
+        body {padding:20px;font-family:var(--vscode-font-family);color:var(--vscode-foreground);}
+        h1 {color:var(--vscode-errorForeground);font-size:1.4em;margin-bottom:10px;}
+        pre {white-space:pre-wrap;font-family:var(--vscode-editor-font-family);background-color:var(--vscode-textCodeBlock-background);padding:10px;}
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(title)}</h1>
+    <pre>${escapeHtml(details)}</pre>
+</body>
+</html>`;
+    }
+
     /**
      * Gets the html for the viewer
      * @returns html as a string for the viewer
@@ -110,7 +255,7 @@ export class UCQ {
     private async _getHtmlForWebview() {
         print("getting html for the page");
         // getting the html
-        let source:string = await genHtml(this._panel.webview, this._config);
+        let source:string = await genHtml(this._panel.webview, this._config, this._layoutFile ?? this._config.layoutFile);
         // if something was returned from the html generator, return it
         if (source.length) { return source; }
         else {
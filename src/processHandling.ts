@@ -0,0 +1,179 @@
+import * as cp from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import { print } from "./src";
+
+// declaring the types of how a process ended and how to run it (for ease of use later)
+export type ProcessResult = {
+    // exit code, null if the process was killed or could not be started
+    "code" : number|null,
+    "signal" : string|null,
+    "stdout" : string,
+    "stderr" : string,
+    // whether the process was killed for running longer than its time limit
+    "timedOut" : boolean,
+    // why the process could not be started, like the executable not existing
+    "error"? : string
+};
+export type ProcessOptions = {
+    // directory to run the process in, defaults to the directory of vscode
+    "cwd"? : string,
+    // environment variables to add to the environment of vscode
+    "env"? : NodeJS.ProcessEnv,
+    // seconds to let the process run before killing it, 0 means no limit
+    "timeout"? : number,
+    // gets the output of the process as it is made, for processes that take long enough that the user should see them
+    "onOutput"? : (text:string) => void
+};
+
+// time limits in seconds, quick checks like "--version" should never take long but installing can take a while
+export const quickTimeout:number = 60;
+export const installTimeout:number = 1800;
+
+/**
+ * Splits a command from the settings (like "C:\Program Files\Python\python.exe -m pip") into the executable and its
+ * arguments, the executable can be quoted or be a path with spaces in it that exists
+ * @param command : the command
+ * @returns the executable followed by its arguments
+ */
+export function splitCommand(command:string):string[] {
+    let words = (text:string):string[] => (text.match(/"[^"]*"|\S+/g) ?? []).map((word) => word.replace(/^"(.*)"$/, "$1"));
+    command = command.trim();
+    if (command.startsWith("\"")) { return words(command); }
+    if (fs.existsSync(command)) { return [command]; }
+    // the longest part before a space that is a file is the executable, so unquoted paths with spaces work
+    for (let i = command.lastIndexOf(" "); i > 0; i = command.lastIndexOf(" ", i-1)) {
+        if (fs.existsSync(command.slice(0, i))) { return [command.slice(0, i)].concat(words(command.slice(i+1))); }
+    }
+    return words(command);
+}
+
+/**
+ * Quotes an argument for cmd.exe, only used for batch files because windows can only run them through cmd.exe
+ * @param arg : the argument
+ * @returns the quoted argument
+ */
+function quoteForCmd(arg:string):string {
+    if (/^[\w\-.:\\/=]+$/.test(arg)) { return arg; }
+    // special characters like "&" and "<" are plain text inside quotes, quotes inside are doubled
+    return `"${arg.replace(/"/g, "\"\"")}"`;
+}
+
+/**
+ * Joins an executable and its arguments the way they would be typed, for showing to the user
+ * @param parts : the executable followed by its arguments
+ * @returns the joined command
+ */
+function joinArgs(parts:string[]):string {
+    return parts.map((arg) => arg.indexOf(" ") !== -1 ? `"${arg}"` : arg).join(" ");
+}
+
+/**
+ * Runs a process without a shell, so paths with spaces and arguments with quotes in them do not need to be escaped,
+ * success is decided by the exit code
+ * @param exe : path or name on the path of the executable
+ * @param args : arguments of the executable
+ * @param options : how to run the process
+ * @returns how the process ended and its output
+ */
+export async function runProcess(exe:string, args:string[], options:ProcessOptions={}):Promise<ProcessResult> {
+    let display:string = joinArgs([exe].concat(args));
+    let env:NodeJS.ProcessEnv = { ...process.env, ...(options.env ?? {}) };
+    let timeout:number = options.timeout ?? quickTimeout;
+    return await new Promise<ProcessResult>((resolve) => {
+        let child:cp.ChildProcess;
+        try {
+            // windows only runs batch files (like conda.bat) through cmd.exe, so those get quoted for it
+            if (os.platform() === "win32" && /\.(bat|cmd)$/i.test(exe)) {
+                child = cp.spawn([exe].concat(args).map(quoteForCmd).join(" "), { cwd : options.cwd, env : env, shell : true, windowsHide : true });
+            } else {
+                child = cp.spawn(exe, args, { cwd : options.cwd, env : env, windowsHide : true });
+            }
+        } catch ( e ) {
+            print(`could not start "${display}": ${(e as Error).message}`);
+            resolve({"code" : null, "signal" : null, "stdout" : "", "stderr" : "", "timedOut" : false, "error" : (e as Error).message});
+            return;
+        }
+        let stdout:string = "";
+        let stderr:string = "";
+        let timedOut:boolean = false;
+        let startError:string|undefined = undefined;
+        let timer:NodeJS.Timeout|undefined = timeout > 0 ? setTimeout(() => {
+            timedOut = true;
+            print(`"${display}" ran longer than ${timeout}s, stopping it`);
+            child.kill();
+        }, timeout*1000) : undefined;
+        child.stdout?.on("data", (data:Buffer) => {
+            stdout = stdout.concat(data.toString());
+            options.onOutput?.(data.toString());
+        });
+        child.stderr?.on("data", (data:Buffer) => {
+            stderr = stderr.concat(data.toString());
+            options.onOutput?.(data.toString());
+        });
+        // not being able to start is reported here, "close" still comes after it
+        child.on("error", (e) => { startError = e.message; });
+        child.on("close", (code, signal) => {
+            if (timer !== undefined) { clearTimeout(timer); }
+            let result:ProcessResult = {"code" : code, "signal" : signal, "stdout" : stdout, "stderr" : stderr, "timedOut" : timedOut, "error" : startError};
+            if (!(succeeded(result))) { print(`"${display}" failed: ${describeFailure(result)}`); }
+            resolve(result);
+        });
+    });
+}
+
+/**
+ * Runs a command from the settings, like the python interpreter or pip, with more arguments
+ * @param command : the command, split with splitCommand
+ * @param args : arguments to add to the command
+ * @param options : how to run the process
+ * @returns how the process ended and its output
+ */
+export async function runCommand(command:string, args:string[], options:ProcessOptions={}):Promise<ProcessResult> {
+    let parts:string[] = splitCommand(command);
+    if (!(parts.length)) {
+        return {"code" : null, "signal" : null, "stdout" : "", "stderr" : "", "timedOut" : false, "error" : "the command is empty"};
+    }
+    return await runProcess(parts[0], parts.slice(1).concat(args), options);
+}
+
+/**
+ * Gets whether a process succeeded
+ * @param result : how the process ended
+ * @returns whether it exited with code 0 in time
+ */
+export function succeeded(result:ProcessResult):boolean {
+    return result.code === 0 && !(result.timedOut) && result.error === undefined;
+}
+
+/**
+ * Describes why a process failed for the user
+ * @param result : how the process ended
+ * @returns the description, like "exited with code 1: ERROR: No matching distribution found for qiskit"
+ */
+export function describeFailure(result:ProcessResult):string {
+    if (result.error !== undefined) { return `could not be started (${result.error})`; }
+    if (result.timedOut) { return "ran too long and was stopped"; }
+    let lastLine:string|undefined = result.stderr.trim().split(/\r?\n/).pop();
+    let ended:string = result.code !== null ? `exited with code ${result.code}` : `was killed by ${result.signal}`;
+    return lastLine?.length ? `${ended}: ${lastLine}` : ended;
+}
+
+/**
+ * Describes a command and its arguments the way it would be typed
+ * @param command : the command from the settings
+ * @param args : arguments added to the command
+ * @returns the description
+ */
+export function describeCommand(command:string, args:string[]):string {
+    return joinArgs(splitCommand(command).concat(args));
+}
+
+/**
+ * Gets the path a python interpreter uses for pip, "-m pip" of the interpreter so it always matches
+ * @param python : path of the interpreter
+ * @returns the pip command, the interpreter is quoted if it has spaces in it
+ */
+export function pipOf(python:string):string {
+    return `${python.indexOf(" ") !== -1 && !(python.startsWith("\"")) ? `"${python}"` : python} -m pip`;
+}
@@ -0,0 +1,168 @@
+import * as vscode from "vscode";
+import { Config, UserConfig, Profile, settingsSection } from "./config";
+import { verifyPython } from "./pythonHandling";
+import { print, error, info } from "./src";
+import { pipOf } from "./processHandling";
+
+/**
+ * Class for the status bar item showing the interpreter profile in use, clicking it switches profiles
+ */
+export class ProfileStatusBar {
+    private _disposables: vscode.Disposable[] = [];
+    private readonly _statusBarItem: vscode.StatusBarItem;
+
+    /**
+     * Constructs this class and starts following the active editor and the settings
+     */
+    constructor() {
+        this._statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+        this._statusBarItem.command = "uc-quantum-lab.switchProfile";
+        this._disposables.push(this._statusBarItem);
+
+        // the profile shown is the one of the workspace folder of the active editor
+        this._disposables.push(vscode.window.onDidChangeActiveTextEditor(() => this.update()));
+        this._disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.update()));
+        this._disposables.push(vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration(settingsSection)) { this.update(); }
+        }));
+        this.update();
+    }
+
+    /**
+     * Shows the profile of the workspace folder of the active editor, hidden if python has not been set up at all
+     */
+    update() {
+        let folders:readonly vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders ?? [];
+        let editor:vscode.TextEditor|undefined = vscode.window.activeTextEditor;
+        let folder:vscode.WorkspaceFolder|undefined = (editor !== undefined ? vscode.workspace.getWorkspaceFolder(editor.document.uri) : undefined) ?? folders[0];
+        if (folder === undefined) {
+            this._statusBarItem.hide();
+            return;
+        }
+        let userConfig:UserConfig = new UserConfig(undefined, folder);
+        userConfig.get();
+        if (!(userConfig.isSet()) && !(Object.keys(userConfig.profiles).length)) {
+            this._statusBarItem.hide();
+            return;
+        }
+        this._statusBarItem.text = `$(server-environment) ${userConfig.describe()}`;
+        this._statusBarItem.tooltip = `UC Quantum Lab runs "${folder.name}" with "${userConfig.python}", click to switch profiles`;
+        this._statusBarItem.show();
+    }
+
+    /**
+     * destroys this class
+     */
+    public dispose() {
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) { x.dispose(); }
+        }
+    }
+}
+
+/**
+ * Checks the python of a profile and installs the python module in it if need be, with a notification while it does
+ * @param config : configuration of the extension
+ * @param name : name of the profile
+ * @param profile : the profile
+ */
+async function verifyProfile(config:Config, name:string, profile:Profile) {
+    print(`verifying profile "${name}"`);
+    await vscode.window.withProgress({
+        location : vscode.ProgressLocation.Notification,
+        title : `Checking python of profile "${name}"`
+    }, async () => await verifyPython(config, profile.python, profile.pip));
+}
+
+/**
+ * Has the user make a new profile, the new profile is saved to the user settings so every workspace can use it
+ * @param config : configuration of the extension
+ * @returns the name of the new profile, undefined if the user stopped
+ */
+async function makeProfile(config:Config):Promise<string|undefined> {
+    let name:string|undefined = await vscode.window.showInputBox({
+        title : "Name of the new profile",
+        placeHolder : "qiskit-0.39",
+        validateInput : (value) => {
+            if (!(value.trim().length)) { return "The name can not be empty"; }
+            return config.userConfig.profiles[value.trim()] !== undefined ? `"${value.trim()}" is already a profile` : undefined;
+        }
+    });
+    if (name === undefined) { return undefined; }
+    name = name.trim();
+    let python:string|undefined = await vscode.window.showInputBox({
+        title : `Python interpreter path or command of "${name}"`,
+        value : config.userConfig.python,
+        validateInput : (value) => value.trim().length ? undefined : "The python interpreter can not be empty"
+    });
+    if (python === undefined) { return undefined; }
+    python = python.trim();
+    let pip:string|undefined = await vscode.window.showInputBox({
+        title : `Pip path or command of "${name}"`,
+        value : pipOf(python),
+        validateInput : (value) => value.trim().length ? undefined : "Pip can not be empty"
+    });
+    if (pip === undefined) { return undefined; }
+    let envText:string|undefined = await vscode.window.showInputBox({
+        title : `Environment variables of "${name}" (optional)`,
+        placeHolder : "NAME=value;OTHER=value",
+        validateInput : (value) => value.split(";").filter((part) => part.trim().length).every((part) => part.indexOf("=") > 0) ? undefined : "Use NAME=value separated by \";\""
+    });
+    if (envText === undefined) { return undefined; }
+
+    let profile:Profile = {"python" : python, "pip" : pip.trim()};
+    let env:{[name:string] : string} = {};
+    for (let part of envText.split(";").filter((part) => part.trim().length)) {
+        env[part.slice(0, part.indexOf("=")).trim()] = part.slice(part.indexOf("=")+1).trim();
+    }
+    if (Object.keys(env).length) { profile.env = env; }
+
+    await verifyProfile(config, name, profile);
+    await config.userConfig.addProfile(name, profile);
+    info(`Added profile "${name}"`);
+    return name;
+}
+
+/**
+ * Has the user choose the profile to use for the workspace folder, the python of the profile is checked before it is used
+ * @param config : configuration of the extension
+ */
+export async function pickProfile(config:Config) {
+    let settingsPython:string = vscode.workspace.getConfiguration(settingsSection, config.workspaceFolder?.uri).get<string>("python", "");
+    // creating an array of the profiles to display to the user
+    let arr:(vscode.QuickPickItem & {"profile" : string|undefined})[] = Object.keys(config.userConfig.profiles).map((name) => {
+        return {
+            label : name,
+            description : name === config.userConfig.activeProfile ? "active" : undefined,
+            detail : config.userConfig.profiles[name].python,
+            profile : name
+        };
+    });
+    arr.push({
+        label : "$(circle-slash) No profile",
+        description : config.userConfig.activeProfile.length ? undefined : "active",
+        detail : `use "${settingsSection}.python" (${settingsPython.length ? settingsPython : "not set"})`,
+        profile : ""
+    });
+    arr.push({ label : "$(add) Add a profile...", profile : undefined });
+
+    let result = await vscode.window.showQuickPick(arr, { title : `Choose the interpreter profile for "${config.workspaceFolder?.name}"` });
+    if (result === undefined) { return; }
+    let name:string|undefined = result.profile;
+    if (name === undefined) {
+        name = await makeProfile(config);
+        if (name === undefined) { return; }
+        let choice:string|undefined = await vscode.window.showInformationMessage(`Switch "${config.workspaceFolder?.name}" to profile "${name}"?`, config.yes, config.no);
+        if (choice !== config.yes) { return; }
+    } else if (name === config.userConfig.activeProfile) {
+        return;
+    } else if (name.length) {
+        // the profile is checked before it is used
+        await verifyProfile(config, name, config.userConfig.profiles[name]);
+    } else if (!(settingsPython.length)) {
+        error(`"${settingsSection}.python" is not set, run the init command of this extension (uc-quantum-lab.init) first`);
+    }
+    await config.userConfig.setActiveProfile(name);
+    info(name.length ? `Using profile "${name}"` : `Using "${settingsSection}.python"`);
+}
@@ -1,241 +1,506 @@
-import * as vscode from "vscode";
-import { Config } from "./config";
-import { checkIfCondaInstalled, getCondaEnvs } from "./condaHandling";
-import { print, error, tryCommand, getOutputOfCommand, info, semmanticVersionToNum, InfoType } from "./src";
-/**
- * Installs the inputted python module with the inputted pip
- * @param pip : pip exe
- * @param module : python module to install
- * @returns a bool indicating if the install suceeded
- */
- export async function pipInstall(pip:string, module:string):Promise<boolean> {
-    return await tryCommand(`${pip} install -q --no-warn-script-location ${module}`);
-}
-
-/**
- * Updates the inputted python module using the inputted pip
- * @param pip : pip exe
- * @param module : python module to update
- * @returns a bool indicating if the update succeeded
- */
- export async function pipUpdate(pip:string, module:string):Promise<boolean> {
-    return await tryCommand(`${pip} install --upgrade ${module}`);
-}
-
-/**
- * Gets the current version of the inputted module from pip
- * @param pip : string path to pip executable
- * @param module : string name of module to check
- * @returns current version of the provided module
- */
- export async function getVersionOfPythonModuleWithName(pip:string, module:string):Promise<string> {
-    let version:string = "";
-    let output:string = await getOutputOfCommand(`${pip} show ${module}`);
-    // parsing the output and getting the version
-    let arr:string[] = output.split("\n");
-    for (let val of arr) {
-        if (val.indexOf("Version")>=0){
-            version = val.replace("Version:", "").trim();
-            break;
-        }
-    }
-    return version;
-}
-
-/**
- * Verifies the current configuration of python to be used with this extension
- * @param config : configuration of the extension
- * @returns boolean indicating whether or not this function extension exceeded
- */
-export async function verifyPython(config:Config) {
-	// if importing the python module in python succeeds
-	if (await tryCommand(`${config.userConfig.python} -c "import ${config.pythonModuleName}"`)) {
-		// getting the version from the installed package and if it is not the current version, then update it
-		if (await semmanticVersionToNum((await getVersionOfPythonModuleWithName(config.userConfig.pip, config.pythonModulePyPi))) 
-			< await semmanticVersionToNum(config.minPythonModVer)) {
-			// informing the user
-			info(`Updating "${config.pythonModuleName}" for "${config.userConfig.python}" from ${(await getVersionOfPythonModuleWithName(config.userConfig.pip, config.pythonModulePyPi))} to ${config.minPythonModVer}`);
-			if (await pipUpdate(config.userConfig.pip , config.pythonModulePyPi)) {
-				info("done");
-			} else {
-				error(`error updating "${config.pythonModuleName}" for "${config.userConfig.python}"`);
-			}
-		// if the package is already the right version
-		} else { print(`"${config.pythonModuleName}" is already there for "${config.userConfig.python}" and of the right version, do not need to install`); }
-	// if importing the python module in python did not succeed
-	} else {
-		info(`Setting up "${config.pythonModuleName}" for "${config.userConfig.python}"`);
-		// trying to install the python module, if it succeeds tell the user, if it does not tell the user
-		// might need to use this flag at some point "--use-feature=in-tree-build"
-		if (await pipInstall(config.userConfig.pip, config.pythonModulePyPi)) {
-			info("done");
-		} else {
-			error(`error setting up "${config.pythonModuleName}" for "${config.userConfig.python}"`);
-		}
-	}
-}
-
-/**
- * Sets up python for this extension
- * @param config : configuration of the extension
- * @returns boolean indicating whether or not this function extension exceeded
- */
-export async function setupPython(config:Config) {
-    // if conda is installed
-    if (await checkIfCondaInstalled()){
-		print("detected conda");
-
-		// asking the user if they want to use this extension with conda (hopefully they do)
-		let choice:string|undefined = await vscode.window.showInformationMessage(`Detected conda, do you want to use it with this extension (this is the recommend method)?`, config.yes, config.no);
-        
-		// if they choose to setup python for conda
-        if (choice === config.yes) {
-			print("setting up for conda");
-			// loading the available conda environments
-            info("Loading conda envs, you will see a prompt at the top of the window soon");
-            let dict:InfoType  = await getCondaEnvs();
-            
-			// creating an array of the available environments to display to the user
-            let arr:vscode.QuickPickItem[] = [];
-            for (let key in dict) {
-				// if qiskit is installed in an environment show it in the array, look and vscode api reference for this format
-                if (dict[key]["hasQiskit"]) {
-					arr.push({
-						label: key,
-						description: "suggested",
-						detail : `located at "${dict[key]["path"]}"`
-					});
-				} else {
-					arr.push({
-						label: key,
-						detail : `located at "${dict[key]["path"]}"`
-					});
-				}
-            }
-			if (!(arr.length)) {
-				error("no conda envs available, please make one, there are many resources online if you need help with this");
-			}
-
-			// creating drop down for the user to select their environment from
-			let result:vscode.QuickPickItem|undefined = await vscode.window.showQuickPick(arr, {placeHolder: 'choose the conda environment from the list', title:"Choose conda Environment"});
-			
-			// if they chose something from the previously made list
-			if (result !== undefined) {
-				// getting the name of the environment from their selection
-				//result = result.slice(0, result.indexOf(" "));
-				print(`Setting up conda envrionment: "${result}"`);
-
-				// loading the python and pip paths from the dictionary holding the information
-				config.userConfig.python = dict[result.label]["exe"];
-				config.userConfig.pip = dict[result.label]["pip"];
-				
-				// checking if the python and pip paths are valid
-				await verifyPython(config);
-			} else { 
-				// if the user chose nothing, this is not ok
-				error("invalid selection for conda env");
-			}
-		// if the user does not want to use conda
-        } else if (choice === config.no) {
-			print("setting up for system python");
-			// setting this extension up to use system python
-			await setupSysPython(config);
-
-		// if the user did not choose anything
-		}  else {
-			// this is no good	
-			error("invalid choice for python setup");
-		}
-	// if here then did not detect conda
-    } else {
-		print("did not detect conda");
-		// prompting the user if they want to continue with system python install and 
-		// tells them where they can get conda if they would rather use that
-        let opt:string|undefined = await vscode.window.showInformationMessage("Did not detect anaconda, continue with a system python install? (this is not recommended)", config.yes, config.no);
-        
-		// if they want to continue to a system install
-		if (opt === config.yes) {
-			// setting this extension up to use system python
-			await setupSysPython(config);
-		// if the user did not choose anything
-        } else if (opt === config.no) {
-			await vscode.window.showInformationMessage("Go to https://docs.anaconda.com/anaconda/install/index.html for a guide to install anaconda");
-			error("Run this extension again after you get anaconda installed");
-		} else {
-			error("invalid choice for python setup");
-		}
-    }
-}
-
-
-/**
- * Sets up system python for this extension and returns if it was sucessful or not as a boolean
- * @param config : current configuration of the extension
- * @returns boolean indicating if there was successful setup of system python for this extension
- */
-export async function setupSysPython(config:Config) {
-    print("Setting up for sys python");
-    // if python is installed
-    let version:string = "";
-    let output:string = "";
-    if (!(await tryCommand("python3 --version")) && !(await tryCommand("python --version"))) {
-        // no
-        info("Python was not detected on your system, please install it");
-    } else {
-        // yes
-        // getting the python command
-        if (await tryCommand("python --version")) {
-            config.userConfig.python = "python";
-            // extracting the python version and making sure it is an allowed version of python
-            output = await getOutputOfCommand(`${config.userConfig.python} --version`);
-            version = output.slice(output.search(/[0-9]/), output.length).trim();
-            if (version.length) {
-                // if the "python" command provided the wrong versin of python
-                if ((await semmanticVersionToNum(version)) < (await semmanticVersionToNum(config.minPythonVer))) {
-                    config.userConfig.python = "python3";
-                    // extracting the python version and making sure it is an allowed version of python
-                    output = await getOutputOfCommand(`${config.userConfig.python} --version`);
-                    version = output.slice(output.search(/[0-9]/), output.length).trim();
-                    if (version.length) {
-                        if ((await semmanticVersionToNum(version)) < (await semmanticVersionToNum(config.minPythonVer))) {
-                            error("Your system python is too old for this extension, you need to update it");
-                        }
-                    } else {
-                        error("could not detect python version, trying installing python");
-                    }
-                }
-            }
-        } else {
-            config.userConfig.python = "python3";
-            // extracting the python version and making sure it is an allowed version of python
-            output = await getOutputOfCommand(`${config.userConfig.python} --version`);
-            version = output.slice(output.search(/[0-9]/), output.length).trim();
-            if (version.length) {
-                if ((await semmanticVersionToNum(version)) < (await semmanticVersionToNum(config.minPythonVer))) {
-                    error("Your system python is too old for this extension, you need to update it");
-                }
-            }
-        }
-
-        // if pip is installed
-        if (!(await tryCommand(`${config.userConfig.python} -m pip --version`)) && !(await tryCommand("${config.userConfig.python} -m pip3 --version"))) {
-            // no
-            error("python pip was not detected on your system, please install it");
-        } else {
-            /**
-             * If the proper version of python is installed then the proper version of pip is probably installed, so do need to check
-             */
-            if (await tryCommand(`${config.userConfig.python} -m pip --version`)) {
-                config.userConfig.pip = `${config.userConfig.python} -m pip`;
-            } else {
-                if (await tryCommand(`${config.userConfig.python} -m pip3 --version`)) {
-                    config.userConfig.pip = `${config.userConfig.python} -m pip3`;
-                } else {
-                    error("pip is not installed");
-                }
-            }
-            // makes sure python is good
-            await verifyPython(config);
-        }
-    }
-}
\ No newline at end of file
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { Config, getConfig, settingsSection } from "./config";
+import { checkIfCondaInstalled, getCondaEnvs, createCondaEnv } from "./condaHandling";
+import { getMsPythonInterpreter, onDidChangeMsPythonInterpreter } from "./msPythonHandling";
+import { getPythonEnvs, createVenv } from "./envHandling";
+import { print, error, warn, info, out, InfoType, InfoInnerType } from "./src";
+import { runProcess, runCommand, succeeded, describeFailure, pipOf, installTimeout, ProcessResult } from "./processHandling";
+import { satisfies, checkRequiredPackage, normalizePackageName } from "./versionHandling";
+import { parseRequirements, diffRequirements, formatRequirementChange, RequirementChange } from "./requirementsHandling";
+
+// python versions a new conda environment can be made with, the first is the default
+const condaPythonVersions:string[] = ["3.10", "3.9", "3.8", "3.11"];
+// requirements files already synced with an interpreter (or that the user said no to), keyed on the interpreter and the
+// contents of the file so the user is only asked again when one of them changes
+const syncedRequirements:Set<string> = new Set<string>();
+// packages the user said no to installing, keyed on the interpreter and the packages so they are only asked again
+// when one of them changes
+const declinedInstalls:Set<string> = new Set<string>();
+
+/**
+ * Gets the pip options that say where to install from, from the install settings of the user
+ * @param config : configuration of the extension
+ * @returns the options, empty to install from the default index
+ */
+export function getPipSourceArgs(config:Config):string[] {
+    let toReturn:string[] = [];
+    let wheelhouse:string[] = config.userConfig.wheelhouse.length ? ["--find-links", config.userConfig.wheelhouse] : [];
+    if (config.userConfig.useVendoredWheels) {
+        if (!(fs.existsSync(config.vendoredWheelsDir)) || !(fs.readdirSync(config.vendoredWheelsDir).some((file) => file.endsWith(".whl")))) {
+            error(`"${settingsSection}.useVendoredWheels" is on but there are no wheels in "${config.vendoredWheelsDir}", turn it off or use a build of this extension with wheels in it`);
+        }
+        // nothing is downloaded, only the shipped wheels and the wheelhouse are used
+        return toReturn.concat(["--no-index", "--find-links", config.vendoredWheelsDir], wheelhouse);
+    }
+    if (config.userConfig.pipIndexUrl.length) { toReturn.push("--index-url", config.userConfig.pipIndexUrl); }
+    for (let url of config.userConfig.pipExtraIndexUrls) { toReturn.push("--extra-index-url", url); }
+    // a wheelhouse without an index is for machines without a network
+    if (wheelhouse.length && !(toReturn.length)) { toReturn.push("--no-index"); }
+    return toReturn.concat(wheelhouse);
+}
+
+/**
+ * Installs the inputted python modules with the inputted pip, the output of pip is shown in the output channel as it runs
+ * @param pip : pip exe
+ * @param modules : python modules to install, can have versions like "qiskit>=0.37"
+ * @param sourceArgs : pip options that say where to install from, see getPipSourceArgs
+ * @returns how pip ended, use succeeded to see if the install suceeded
+ */
+ export async function pipInstall(pip:string, modules:string[], sourceArgs:string[]=[]):Promise<ProcessResult> {
+    out.show(true);
+    return await runCommand(pip, ["install", "--no-warn-script-location"].concat(sourceArgs, modules), { timeout : installTimeout, onOutput : (text) => out.append(text) });
+}
+
+/**
+ * Updates the inputted python modules using the inputted pip, the output of pip is shown in the output channel as it runs
+ * @param pip : pip exe
+ * @param modules : python modules to update, pip options like "--force-reinstall" can be in it too
+ * @param sourceArgs : pip options that say where to install from, see getPipSourceArgs
+ * @returns how pip ended, use succeeded to see if the update succeeded
+ */
+ export async function pipUpdate(pip:string, modules:string[], sourceArgs:string[]=[]):Promise<ProcessResult> {
+    out.show(true);
+    return await runCommand(pip, ["install", "--upgrade"].concat(sourceArgs, modules), { timeout : installTimeout, onOutput : (text) => out.append(text) });
+}
+
+/**
+ * Gets what a python interpreter prints for "--version", older versions of python print it to stderr
+ * @param python : python interpreter path or command
+ * @returns the output, empty if the interpreter could not be run
+ */
+async function getPythonVersionOutput(python:string):Promise<string> {
+    let result:ProcessResult = await runCommand(python, ["--version"]);
+    return succeeded(result) ? `${result.stdout}${result.stderr}`.trim() : "";
+}
+
+/**
+ * Gets the current version of the inputted module from pip
+ * @param pip : string path to pip executable
+ * @param module : string name of module to check
+ * @returns current version of the provided module
+ */
+ export async function getVersionOfPythonModuleWithName(pip:string, module:string):Promise<string> {
+    let version:string = "";
+    let output:string = (await runCommand(pip, ["show", module])).stdout;
+    // parsing the output and getting the version
+    let arr:string[] = output.split("\n");
+    for (let val of arr) {
+        if (val.indexOf("Version")>=0){
+            version = val.replace("Version:", "").trim();
+            break;
+        }
+    }
+    return version;
+}
+
+/**
+ * Gets the current versions of the inputted modules from pip with one call to pip
+ * @param pip : string path to pip executable
+ * @param modules : names of the modules to check
+ * @returns current version of each module, undefined if it is not installed
+ */
+export async function getVersionsOfPythonModules(pip:string, modules:string[]):Promise<{[module:string] : string|undefined}> {
+    let toReturn:{[module:string] : string|undefined} = {};
+    let found:{[module:string] : string} = {};
+    // pip separates the modules with "---" lines, modules that are not installed are left out
+    for (let block of (await runCommand(pip, ["show"].concat(modules))).stdout.split(/^---\s*$/m)) {
+        let name:RegExpMatchArray|null = block.match(/^Name:\s*(.+)$/m);
+        let version:RegExpMatchArray|null = block.match(/^Version:\s*(.+)$/m);
+        if (name !== null && version !== null) { found[normalizePackageName(name[1].trim())] = version[1].trim(); }
+    }
+    for (let module of modules) { toReturn[module] = found[normalizePackageName(module)]; }
+    return toReturn;
+}
+
+/**
+ * Verifies the current configuration of python to be used with this extension
+ * @param config : configuration of the extension
+ * @param python : python interpreter to verify, defaults to the one in use
+ * @param pip : pip of the python interpreter, defaults to the one in use
+ * @returns boolean indicating whether or not this function extension exceeded
+ */
+export async function verifyPython(config:Config, python:string=config.userConfig.python, pip:string=config.userConfig.pip) {
+	let versions:{[module:string] : string|undefined} = await getVersionsOfPythonModules(pip, config.requiredPackages.map((required) => required.name));
+	// the packages to install or update, installed with one call to pip so it can find versions that work together
+	let toInstall:string[] = [];
+	// what will change, shown to the user before anything is installed
+	let changes:string[] = [];
+	let tooNew:string[] = [];
+	for (let required of config.requiredPackages) {
+		let problem = checkRequiredPackage(required, versions[required.name]);
+		if (problem === undefined) {
+			print(`"${required.name}" ${versions[required.name]} is already there for "${python}" and works with this extension, do not need to install`);
+		} else if (problem.problem === "new") {
+			// a newer version could still work, so it is left alone
+			tooNew.push(problem.message);
+		} else {
+			print(problem.message);
+			toInstall.push(`${required.name}${required.range}`);
+			changes.push(problem.problem === "missing" ? `+ ${required.name}${required.range}` : `~ ${required.name} ${versions[required.name]} -> ${required.range} (upgrade)`);
+		}
+	}
+	let key:string = `${python}\n${toInstall.join("\n")}`;
+	if (toInstall.length && !(declinedInstalls.has(key))) {
+		print(`"${python}" needs changes to work with this extension:`);
+		changes.forEach((line) => out.appendLine(`    ${line}`));
+		let choice:string|undefined = await vscode.window.showInformationMessage(`"${python}" needs these packages to work with this extension, do you want to install them?`, { modal : true, detail : changes.join("\n") }, config.yes, config.no);
+		if (choice !== config.yes) {
+			// saying no is remembered until the interpreter or what it needs changes, so runs do not ask every time
+			declinedInstalls.add(key);
+			warn(`Did not change "${python}", runs may not work until ${toInstall.join(", ")} ${toInstall.length > 1 ? "are" : "is"} installed (the doctor command can install ${toInstall.length > 1 ? "them" : "it"})`);
+			toInstall = [];
+		}
+	} else if (toInstall.length) {
+		print(`the user already said no to installing ${toInstall.join(", ")} for "${python}"`);
+		toInstall = [];
+	}
+	if (toInstall.length) {
+		info(`Setting up ${toInstall.join(", ")} for "${python}"`);
+		// might need to use this flag at some point "--use-feature=in-tree-build"
+		let sourceArgs:string[] = getPipSourceArgs(config);
+		let result:ProcessResult = await pipInstall(pip, toInstall, sourceArgs);
+		if (succeeded(result)) {
+			info("done");
+		} else {
+			// without a network the default index can not be reached
+			let hint:string = sourceArgs.length ? "" : `, if this machine can not reach the python package index set "${settingsSection}.pipIndexUrl" or "${settingsSection}.wheelhouse"`;
+			error(`error setting up ${toInstall.join(", ")} for "${python}", pip ${describeFailure(result)}${hint}`);
+		}
+	}
+	if (tooNew.length) {
+		warn(`${tooNew.join(", ")}. Runs may not work until a version it works with is installed (the doctor command can install one)`);
+	}
+	// if importing the python module in python still does not succeed
+	if (!(succeeded(await runCommand(python, ["-c", `import ${config.pythonModuleName}`])))) {
+		error(`"${config.pythonModuleName}" can not be imported by "${python}"`);
+	}
+	// installing what the requirements file of the workspace asks for, the user is asked before anything is changed
+	await syncRequirements(config, python, pip);
+}
+
+/**
+ * Syncs the python interpreter with the requirements file of the workspace, what will be installed, upgraded, or
+ * downgraded is shown to the user and nothing is changed unless they say yes
+ * @param config : configuration of the extension
+ * @param python : python interpreter to sync, defaults to the one in use
+ * @param pip : pip of the python interpreter, defaults to the one in use
+ */
+export async function syncRequirements(config:Config, python:string=config.userConfig.python, pip:string=config.userConfig.pip) {
+	// workspaces made by older versions do not have a requirements file
+	if (!(fs.existsSync(config.requirementsFile))) { return; }
+	let text:string = await fs.promises.readFile(config.requirementsFile, "utf8");
+	let key:string = `${python}\n${text}`;
+	if (syncedRequirements.has(key)) { return; }
+	let name:string = path.relative(config.workspacePath, config.requirementsFile);
+	let manifest = parseRequirements(text, config.requiredPackages);
+	if (manifest.warnings.length) {
+		warn(`"${name}" has problems: ${manifest.warnings.join("; ")}`);
+	}
+	if (!(manifest.requirements.length)) {
+		syncedRequirements.add(key);
+		return;
+	}
+	let versions:{[module:string] : string|undefined} = await getVersionsOfPythonModules(pip, manifest.requirements.map((requirement) => requirement.name));
+	let changes:RequirementChange[] = diffRequirements(manifest.requirements, versions);
+	if (!(changes.length)) {
+		print(`"${python}" already has everything in "${name}"`);
+		syncedRequirements.add(key);
+		return;
+	}
+	let diff:string[] = changes.map(formatRequirementChange);
+	print(`"${python}" needs changes to match "${name}":`);
+	diff.forEach((line) => out.appendLine(`    ${line}`));
+	let choice:string|undefined = await vscode.window.showInformationMessage(`"${name}" needs these changes to "${python}", do you want to make them?`, { modal : true, detail : diff.join("\n") }, config.yes, config.no);
+	// saying no is remembered until the file or the interpreter changes, so runs do not ask every time
+	syncedRequirements.add(key);
+	if (choice !== config.yes) {
+		warn(`Did not change "${python}", the files of this workspace may not run until it has everything in "${name}"`);
+		return;
+	}
+	let result:ProcessResult = await pipInstall(pip, changes.map((change) => `${change.requirement.name}${change.requirement.extras}${change.requirement.range}`), getPipSourceArgs(config));
+	if (!(succeeded(result))) {
+		// asking again next time, the problem could be fixed by then
+		syncedRequirements.delete(key);
+		error(`error installing the requirements in "${name}" for "${python}", pip ${describeFailure(result)}`);
+	}
+	info(`"${python}" has everything in "${name}"`);
+}
+
+/**
+ * Makes a new conda environment with qiskit in it and sets it up for this extension
+ * @param config : configuration of the extension
+ * @param existing : names of the conda environments that already exist
+ */
+export async function setupNewCondaPython(config:Config, existing:string[]) {
+	let name:string|undefined = await vscode.window.showInputBox({
+		title : "Name of the new conda environment",
+		value : "qiskit",
+		ignoreFocusOut : true,
+		validateInput : (value) => {
+			if (!(/^[A-Za-z0-9_.-]+$/.test(value.trim()))) { return "Use letters, numbers, \"_\", \".\", and \"-\""; }
+			return existing.indexOf(value.trim()) !== -1 ? `"${value.trim()}" already exists, choose it from the list instead` : undefined;
+		}
+	});
+	if (name === undefined) {
+		error("invalid name for the new conda env");
+		return;
+	}
+	let version:string|undefined = await vscode.window.showQuickPick(condaPythonVersions, {placeHolder: "choose the python version of the new conda environment", title:"Choose Python Version", ignoreFocusOut: true});
+	if (version === undefined) {
+		error("invalid python version for the new conda env");
+		return;
+	}
+	let env:InfoInnerType = await createCondaEnv(name.trim(), version, config.requiredPackages, getPipSourceArgs(config));
+	config.userConfig.python = env.exe;
+	config.userConfig.pip = env.pip;
+	// installs the python module of this extension in the new environment
+	await verifyPython(config);
+	info(`Made conda environment "${name.trim()}" and set it up for this extension`);
+}
+
+/**
+ * Sets up a conda environment for this extension
+ * @param config : configuration of the extension
+ */
+export async function setupCondaPython(config:Config) {
+	print("setting up for conda");
+	// loading the available conda environments
+	info("Loading conda envs, you will see a prompt at the top of the window soon");
+	let dict:InfoType  = await getCondaEnvs();
+	
+	// creating an array of the available environments to display to the user
+	let arr:(vscode.QuickPickItem & {"env" : string|undefined})[] = [];
+	for (let key in dict) {
+		// if qiskit is installed in an environment show it in the array, look and vscode api reference for this format
+		arr.push({
+			label: key,
+			description: [dict[key]["version"] !== undefined ? `python ${dict[key]["version"]}` : "", dict[key]["hasQiskit"] ? "suggested" : ""].filter((part) => part.length).join(", "),
+			detail : `located at "${dict[key]["path"]}"`,
+			env : key
+		});
+	}
+	// making an environment is the only choice if there are none
+	arr.push({
+		label : "$(add) Create new conda environment",
+		description : arr.length ? undefined : "no conda envs were found",
+		detail : "makes a conda environment with qiskit and the python module of this extension in it",
+		env : undefined
+	});
+
+	// creating drop down for the user to select their environment from
+	let result = await vscode.window.showQuickPick(arr, {placeHolder: 'choose the conda environment from the list', title:"Choose conda Environment", ignoreFocusOut: true});
+	
+	// if they chose something from the previously made list
+	if (result === undefined) {
+		// if the user chose nothing, this is not ok
+		error("invalid selection for conda env");
+	} else if (result.env === undefined) {
+		await setupNewCondaPython(config, Object.keys(dict));
+	} else {
+		print(`Setting up conda envrionment: "${result.env}"`);
+
+		// loading the python and pip paths from the dictionary holding the information
+		config.userConfig.python = dict[result.env]["exe"];
+		config.userConfig.pip = dict[result.env]["pip"];
+		
+		// checking if the python and pip paths are valid
+		await verifyPython(config);
+	}
+}
+
+/**
+ * Makes a virtual environment in the workspace and sets it up for this extension
+ * @param config : configuration of the extension
+ */
+export async function setupVenvPython(config:Config) {
+	// the interpreters the virtual environment can be made with
+	let bases:string[] = [];
+	for (let command of ["python3", "python"]) {
+		if (succeeded(await runProcess(command, ["--version"]))) { bases.push(command); }
+	}
+	let envs:InfoType = await getPythonEnvs(config);
+	for (let name in envs) {
+		if (name.endsWith("(pyenv)")) { bases.push(envs[name]["exe"]); }
+	}
+	if (!(bases.length)) {
+		error("Python was not detected on your system, please install it");
+	}
+	let base:string|undefined = bases.length === 1 ? bases[0] : await vscode.window.showQuickPick(bases, {placeHolder: "choose the python to make the virtual environment with", title:"Choose Python"});
+	if (base === undefined) {
+		error("invalid selection for the python to make the virtual environment with");
+		return;
+	}
+	let env:InfoInnerType = await createVenv(config, base);
+	config.userConfig.python = env.exe;
+	config.userConfig.pip = env.pip;
+	// installs the python module of this extension in the new environment
+	await verifyPython(config);
+}
+
+/**
+ * Sets up python for this extension
+ * @param config : configuration of the extension
+ * @returns boolean indicating whether or not this function extension exceeded
+ */
+export async function setupPython(config:Config) {
+	// using the interpreter the user already selected in the Python extension instead of asking again
+	let selected:string|undefined = await getMsPythonInterpreter(config.workspaceFolder);
+	if (selected !== undefined) {
+		info(`Using "${selected}", the interpreter selected in the Python extension`);
+		config.userConfig.python = selected;
+		config.userConfig.pip = pipOf(selected);
+		await verifyPython(config);
+		return;
+	}
+
+	// finding the virtual environments, pyenv versions, and Poetry and Pipenv environments
+	let dict:InfoType = await getPythonEnvs(config);
+	let conda:boolean = await checkIfCondaInstalled();
+	if (conda) { print("detected conda"); } 
+	else { print("did not detect conda"); }
+
+	// creating an array of the ways python can be set up to display to the user
+	let arr:(vscode.QuickPickItem & {"choice" : string})[] = [];
+	for (let key in dict) {
+		arr.push({
+			label : key,
+			description : dict[key]["hasQiskit"] ? "suggested" : undefined,
+			detail : `located at "${dict[key]["path"]}"`,
+			choice : key
+		});
+	}
+	if (conda) {
+		arr.push({ label : "$(package) Conda environment", description : "recommended", detail : "choose one of your conda environments or make a new one", choice : "conda" });
+	}
+	arr.push({ label : "$(add) Create new virtual environment", detail : `makes ".venv" in the workspace with "python -m venv" and installs ${config.pythonModulePyPi} in it`, choice : "venv" });
+	arr.push({ label : "$(terminal) System python", description : "not recommended", detail : "use the python command of your system", choice : "system" });
+	if (!(conda)) {
+		arr.push({ label : "$(link-external) Install anaconda", detail : "anaconda is the recommended way to use this extension", choice : "anaconda" });
+	}
+
+	// creating drop down for the user to select how to set up python
+	let result = await vscode.window.showQuickPick(arr, {placeHolder: "choose the python environment for this extension", title:"Choose Python Environment", ignoreFocusOut: true});
+	if (result === undefined) {
+		// this is no good	
+		error("invalid choice for python setup");
+	} else if (result.choice === "conda") {
+		await setupCondaPython(config);
+	} else if (result.choice === "venv") {
+		await setupVenvPython(config);
+	} else if (result.choice === "system") {
+		print("setting up for system python");
+		// setting this extension up to use system python
+		await setupSysPython(config);
+	} else if (result.choice === "anaconda") {
+		await vscode.window.showInformationMessage("Go to https://docs.anaconda.com/anaconda/install/index.html for a guide to install anaconda");
+		error("Run this extension again after you get anaconda installed");
+	} else {
+		print(`Setting up python environment: "${result.choice}"`);
+		// loading the python and pip paths from the dictionary holding the information
+		config.userConfig.python = dict[result.choice]["exe"];
+		config.userConfig.pip = dict[result.choice]["pip"];
+		// checking if the python and pip paths are valid
+		await verifyPython(config);
+	}
+}
+
+/**
+ * Sets up system python for this extension and returns if it was sucessful or not as a boolean
+ * @param config : current configuration of the extension
+ * @returns boolean indicating if there was successful setup of system python for this extension
+ */
+export async function setupSysPython(config:Config) {
+    print("Setting up for sys python");
+    // if python is installed
+    let version:string = "";
+    let output:string = "";
+    if (!(succeeded(await runProcess("python3", ["--version"]))) && !(succeeded(await runProcess("python", ["--version"])))) {
+        // no
+        info("Python was not detected on your system, please install it");
+    } else {
+        // yes
+        // getting the python command
+        if (succeeded(await runProcess("python", ["--version"]))) {
+            config.userConfig.python = "python";
+            // extracting the python version and making sure it is an allowed version of python
+            output = await getPythonVersionOutput(config.userConfig.python);
+            version = output.slice(output.search(/[0-9]/), output.length).trim();
+            if (version.length) {
+                // if the "python" command provided the wrong versin of python
+                if (!(satisfies(version, `>=${config.minPythonVer}`))) {
+                    config.userConfig.python = "python3";
+                    // extracting the python version and making sure it is an allowed version of python
+                    output = await getPythonVersionOutput(config.userConfig.python);
+                    version = output.slice(output.search(/[0-9]/), output.length).trim();
+                    if (version.length) {
+                        if (!(satisfies(version, `>=${config.minPythonVer}`))) {
+                            error("Your system python is too old for this extension, you need to update it");
+                        }
+                    } else {
+                        error("could not detect python version, trying installing python");
+                    }
+                }
+            }
+        } else {
+            config.userConfig.python = "python3";
+            // extracting the python version and making sure it is an allowed version of python
+            output = await getPythonVersionOutput(config.userConfig.python);
+            version = output.slice(output.search(/[0-9]/), output.length).trim();
+            if (version.length) {
+                if (!(satisfies(version, `>=${config.minPythonVer}`))) {
+                    error("Your system python is too old for this extension, you need to update it");
+                }
+            }
+        }
+
+        // if pip is installed
+        if (!(succeeded(await runCommand(config.userConfig.python, ["-m", "pip", "--version"]))) && !(succeeded(await runCommand(config.userConfig.python, ["-m", "pip3", "--version"])))) {
+            // no
+            error("python pip was not detected on your system, please install it");
+        } else {
+            /**
+             * If the proper version of python is installed then the proper version of pip is probably installed, so do need to check
+             */
+            if (succeeded(await runCommand(config.userConfig.python, ["-m", "pip", "--version"]))) {
+                config.userConfig.pip = pipOf(config.userConfig.python);
+            } else {
+                if (succeeded(await runCommand(config.userConfig.python, ["-m", "pip3", "--version"]))) {
+                    config.userConfig.pip = `${config.userConfig.python} -m pip3`;
+                } else {
+                    error("pip is not installed");
+                }
+            }
+            // makes sure python is good
+            await verifyPython(config);
+        }
+    }
+}
+
+/**
+ * Keeps the python of each workspace folder the same as the interpreter selected in the Python extension, workspace
+ * folders that are not initialized or use a profile are left alone
+ * @param context : context for this extension
+ * @returns disposable that stops following the Python extension
+ */
+export async function followMsPythonInterpreter(context:vscode.ExtensionContext):Promise<vscode.Disposable> {
+    return await onDidChangeMsPythonInterpreter(async (folder) => {
+        for (let target of folder !== undefined ? [folder] : vscode.workspace.workspaceFolders ?? []) {
+            try {
+                let config:Config = await getConfig(context, target);
+                if (!(fs.existsSync(config.configDir)) || config.userConfig.activeProfile.length) { continue; }
+                let python:string|undefined = await getMsPythonInterpreter(target);
+                if (python === undefined || python === config.userConfig.python) { continue; }
+                print(`the Python extension selected "${python}" for "${target.name}"`);
+                // checking the new interpreter before using it
+                await verifyPython(config, python, pipOf(python));
+                config.userConfig.python = python;
+                config.userConfig.pip = pipOf(python);
+                await config.userConfig.save();
+                info(`"${target.name}" now uses "${python}", the interpreter selected in the Python extension`);
+            // functions handle their own errors so do not need to do anything here
+            } catch ( e ) {}
+        }
+    });
+}
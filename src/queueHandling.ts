@@ -0,0 +1,167 @@
+import * as vscode from "vscode";
+import { Config } from "./config";
+import { print, info } from "./src";
+
+// declaring the type of a run waiting for its turn (for ease of use later)
+export type RunJob = {
+    // short description of the run for displaying to the user
+    "name" : string,
+    // does the run, the token is cancelled when the user stops the run
+    "task" : (token:vscode.CancellationToken) => Promise<void>
+};
+
+// declaring the type of what the last run ended as (for ease of use later)
+type RunState = "idle" | "running" | "succeeded" | "failed" | "stopped";
+
+/**
+ * Class that makes sure only one run happens at a time in a workspace folder, so runs do not race on the same
+ * trigger and layout files. A run requested while another is going waits for it, only the newest request waits,
+ * an older waiting request is out of date and is dropped.
+ */
+export class RunManager {
+    /**
+     * Track the run managers, one for each workspace folder
+     */
+    public static managers: Map<string, RunManager> = new Map<string, RunManager>();
+    private readonly _workspacePath: string;
+    private readonly _statusBarItem: vscode.StatusBarItem;
+    private _current: RunJob | undefined;
+    private _pending: RunJob | undefined;
+    private _last: RunJob | undefined;
+    private _state: RunState = "idle";
+    private _tokenSource: vscode.CancellationTokenSource | undefined;
+
+    /**
+     * Gets the run manager of the workspace folder of the configuration, makes one if there is not one
+     * @param config : configuration of the extension
+     * @returns the run manager
+     */
+    public static get(config:Config):RunManager {
+        let manager:RunManager|undefined = RunManager.managers.get(config.workspacePath);
+        if (manager === undefined) {
+            manager = new RunManager(config.workspacePath);
+            RunManager.managers.set(config.workspacePath, manager);
+        }
+        return manager;
+    }
+
+    /**
+     * Stops the runs of every workspace folder
+     * @returns whether there was anything to stop
+     */
+    public static stopAll():boolean {
+        let stopped:boolean = false;
+        for (let manager of RunManager.managers.values()) {
+            if (manager.stop()) { stopped = true; }
+        }
+        return stopped;
+    }
+
+    /**
+     * Constructs this class
+     * @param workspacePath : the workspace folder the runs are in
+     */
+    private constructor(workspacePath:string) {
+        this._workspacePath = workspacePath;
+        this._statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+    }
+
+    /**
+     * whether a run is going in this workspace folder
+     */
+    public get busy():boolean { return this._current !== undefined; }
+
+    /**
+     * Runs a job once the run that is going (if any) is done
+     * @param job : the run to do
+     */
+    public async request(job:RunJob) {
+        if (this._current !== undefined) {
+            if (this._pending !== undefined) { print(`dropping queued run of ${this._pending.name}, a newer run was requested`); }
+            print(`queueing run of ${job.name} until the run of ${this._current.name} is done`);
+            this._pending = job;
+            this._show();
+            return;
+        }
+        this._pending = job;
+        while (this._pending !== undefined) {
+            this._current = this._pending;
+            this._pending = undefined;
+            this._last = this._current;
+            this._tokenSource = new vscode.CancellationTokenSource();
+            this._state = "running";
+            this._show();
+            try {
+                await this._current.task(this._tokenSource.token);
+                this._state = this._tokenSource.token.isCancellationRequested ? "stopped" : "succeeded";
+            } catch ( e ) {
+                // the run already told the user what went wrong
+                this._state = this._tokenSource.token.isCancellationRequested ? "stopped" : "failed";
+            } finally {
+                this._tokenSource.dispose();
+                this._tokenSource = undefined;
+                this._current = undefined;
+            }
+            this._show();
+        }
+    }
+
+    /**
+     * Stops the run that is going and drops the queued run
+     * @returns whether there was anything to stop
+     */
+    public stop():boolean {
+        let stopped:boolean = this._current !== undefined || this._pending !== undefined;
+        if (this._pending !== undefined) { print(`dropping queued run of ${this._pending.name}`); }
+        this._pending = undefined;
+        if (this._current !== undefined) {
+            print(`stopping run of ${this._current.name}`);
+            this._tokenSource?.cancel();
+        }
+        this._show();
+        return stopped;
+    }
+
+    /**
+     * Does the last run again
+     */
+    public async rerun() {
+        if (this._last === undefined) {
+            info("Nothing has been run yet in this workspace folder, execute a python file first");
+            return;
+        }
+        await this.request(this._last);
+    }
+
+    /**
+     * Shows the state of the runs in the status bar, clicking it stops the run or does the last run again
+     */
+    private _show() {
+        if (this._last === undefined) {
+            this._statusBarItem.hide();
+            return;
+        }
+        let folder:string = (vscode.workspace.workspaceFolders?.length ?? 0) > 1 ? ` (${vscode.workspace.getWorkspaceFolder(vscode.Uri.file(this._workspacePath))?.name})` : "";
+        let queued:string = this._pending !== undefined ? `, ${this._pending.name} queued` : "";
+        if (this._current !== undefined) {
+            this._statusBarItem.text = `$(sync~spin) UCQ running ${this._current.name}${queued}`;
+            this._statusBarItem.tooltip = `UC Quantum Lab is running ${this._current.name}${folder}, click to stop`;
+            this._statusBarItem.command = "uc-quantum-lab.stop";
+        } else {
+            let icons:{[key in RunState]:string} = {"idle" : "", "running" : "$(sync~spin)", "succeeded" : "$(check)", "failed" : "$(error)", "stopped" : "$(debug-stop)"};
+            this._statusBarItem.text = `${icons[this._state]} UCQ ${this._last.name} ${this._state}`;
+            this._statusBarItem.tooltip = `The last run of UC Quantum Lab${folder} ${this._state}, click to run it again`;
+            this._statusBarItem.command = "uc-quantum-lab.rerun";
+        }
+        this._statusBarItem.show();
+    }
+
+    /**
+     * destroys this class
+     */
+    public dispose() {
+        this.stop();
+        RunManager.managers.delete(this._workspacePath);
+        this._statusBarItem.dispose();
+    }
+}
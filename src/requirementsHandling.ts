@@ -0,0 +1,111 @@
+import { RequiredPackage, checkRange, checkRequiredPackage, normalizePackageName, satisfies } from "./versionHandling";
+
+// declaring the types of an entry of the requirements file of a workspace and how it differs from an interpreter (for ease of use later)
+export type Requirement = {
+    // name of the package on the python index
+    "name" : string,
+    // optional features of the package, like "[visualization]", empty if there are none
+    "extras" : string,
+    // versions of the package the workspace needs, like "==0.39.0", empty for any version
+    "range" : string,
+    // line of the entry in the requirements file, starting at 1
+    "line" : number
+};
+export type RequirementChange = {
+    "requirement" : Requirement,
+    // what pip will do to the interpreter
+    "action" : "install" | "upgrade" | "downgrade",
+    // the installed version, undefined if the package is not installed
+    "installed"? : string
+};
+
+// a package name, its extras, and the rest of the entry, like "qiskit[visualization]==0.39.0"
+const entryPattern:RegExp = /^([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)\s*(\[[A-Za-z0-9._,\s-]*\])?\s*(.*)$/;
+
+/**
+ * Checks if a range pins a package to one version, like "==0.39.0"
+ * @param range : the range
+ * @returns whether it has a "==" clause without a wildcard
+ */
+function isPinned(range:string):boolean {
+    return range.split(",").some((clause) => /^\s*==\s*[^*]+$/.test(clause));
+}
+
+/**
+ * Reads the requirements file of a workspace, entries that pip would read differently than this extension or that
+ * would change where packages are installed from are left out with a warning
+ * @param text : contents of the requirements file
+ * @param requiredPackages : the packages this extension needs, entries pinned to a version this extension does not work with are left out
+ * @returns the entries and a warning for each line that has a problem
+ */
+export function parseRequirements(text:string, requiredPackages:RequiredPackage[]):{"requirements" : Requirement[], "warnings" : string[]} {
+    let requirements:Requirement[] = [];
+    let warnings:string[] = [];
+    let lines:string[] = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        let number:number = i+1;
+        let entry:string = lines[i];
+        // a line ending with "\" goes on in the next line
+        while (entry.endsWith("\\") && i+1 < lines.length) { entry = entry.slice(0, -1).concat(lines[++i]); }
+        // like pip, "#" starts a comment at the start of a line or after a space
+        entry = entry.replace(/(^|\s)#.*$/, "").trim();
+        if (!(entry.length)) { continue; }
+        let problem = (message:string) => warnings.push(`line ${number}: "${entry}" ${message}, it was skipped`);
+        // the install sources are in the settings so a workspace can not change them
+        if (entry.startsWith("-")) { problem("is a pip option, only packages and versions can be in the requirements file (set where packages are installed from in the settings)"); continue; }
+        if (/:\/\/|@/.test(entry) || /^[.~/\\]/.test(entry)) { problem("installs from a url or a path instead of the package index"); continue; }
+        if (entry.indexOf(";") !== -1) { problem("has an environment marker, those are not supported"); continue; }
+        let match:RegExpMatchArray|null = entry.match(entryPattern);
+        if (match === null) { problem("is not a package name followed by versions, like \"qiskit==0.39.0\""); continue; }
+        let requirement:Requirement = {"name" : match[1], "extras" : (match[2] ?? "").replace(/\s/g, ""), "range" : match[3].replace(/\s/g, ""), "line" : number};
+        let invalid:string|undefined = checkRange(requirement.range);
+        if (invalid !== undefined) { problem(`has versions that are not valid (${invalid})`); continue; }
+        if (requirements.some((other) => normalizePackageName(other.name) === normalizePackageName(requirement.name))) {
+            problem(`is the second entry of "${requirement.name}"`);
+            continue;
+        }
+        let required:RequiredPackage|undefined = requiredPackages.find((other) => normalizePackageName(other.name) === normalizePackageName(requirement.name));
+        let pinned:string|undefined = requirement.range.match(/^==([^,*]+)$/)?.[1];
+        if (required !== undefined && pinned !== undefined && !(satisfies(pinned, required.range))) {
+            problem(`pins a version this extension does not work with (it needs ${required.name}${required.range})`);
+            continue;
+        }
+        if (!(isPinned(requirement.range))) {
+            warnings.push(`line ${number}: "${entry}" is not pinned to one version (like "${requirement.name}==1.0.0"), the version installed can be different on every machine`);
+        }
+        requirements.push(requirement);
+    }
+    return {"requirements" : requirements, "warnings" : warnings};
+}
+
+/**
+ * Gets what pip has to change for the installed packages of an interpreter to match the requirements of a workspace
+ * @param requirements : the entries of the requirements file
+ * @param versions : installed version of each entry, undefined if it is not installed
+ * @returns the changes, empty if the interpreter already matches
+ */
+export function diffRequirements(requirements:Requirement[], versions:{[module:string] : string|undefined}):RequirementChange[] {
+    let toReturn:RequirementChange[] = [];
+    for (let requirement of requirements) {
+        let installed:string|undefined = versions[requirement.name];
+        let problem = checkRequiredPackage({"name" : requirement.name, "range" : requirement.range}, installed);
+        if (problem === undefined) { continue; }
+        toReturn.push({
+            "requirement" : requirement,
+            "action" : problem.problem === "missing" ? "install" : (problem.problem === "old" ? "upgrade" : "downgrade"),
+            "installed" : installed
+        });
+    }
+    return toReturn;
+}
+
+/**
+ * Describes a change like a line of a diff, for showing to the user before it is made
+ * @param change : the change
+ * @returns the description, like "+ qiskit==0.39.0" or "~ qiskit 0.37.0 -> ==0.39.0 (upgrade)"
+ */
+export function formatRequirementChange(change:RequirementChange):string {
+    let spec:string = `${change.requirement.name}${change.requirement.extras}${change.requirement.range}`;
+    if (change.action === "install") { return `+ ${spec}`; }
+    return `~ ${change.requirement.name} ${change.installed} -> ${change.requirement.range} (${change.action})`;
+}
@@ -0,0 +1,298 @@
+import * as vscode from "vscode";
+import * as cp from "child_process";
+import * as path from "path";
+import { Config } from "./config";
+import { print, waitForTriggerFile, TriggerStatus } from "./src";
+import { splitCommand, describeCommand } from "./processHandling";
+
+// declaring the types of the result of a run (for ease of use later)
+export type RunResult = {"code" : number|null, "signal" : string|null, "stdout" : string, "stderr" : string, "killed" : boolean};
+export type RunOutcome = {"result" : RunResult, "trigger" : TriggerStatus};
+
+// seconds to wait for the trigger file after python exits, the python module makes it before exiting
+const triggerGracePeriod:number = 2;
+
+/**
+ * Pseudoterminal that shows the output of the python files run by this extension
+ */
+export class RunTerminal implements vscode.Pseudoterminal {
+    /**
+     * Track the current terminal. Only allow a single one to exist at a time.
+     */
+    public static current: RunTerminal | undefined;
+    public static readonly terminalName = "UC_Q Run";
+    private readonly _writeEmitter = new vscode.EventEmitter<string>();
+    private readonly _closeEmitter = new vscode.EventEmitter<number|void>();
+    public readonly onDidWrite: vscode.Event<string> = this._writeEmitter.event;
+    public readonly onDidClose: vscode.Event<number|void> = this._closeEmitter.event;
+    private readonly _terminal: vscode.Terminal;
+    // text written before vscode opened the terminal
+    private _buffer:string[] = [];
+    private _isOpen:boolean = false;
+    // called when the user presses ctrl+c in the terminal
+    public onInterrupt: (() => void) | undefined;
+
+    /**
+     * Gets the current terminal or makes one if there is not one
+     * @returns the terminal to write the run output to
+     */
+    public static getOrCreate():RunTerminal {
+        if (RunTerminal.current === undefined) {
+            RunTerminal.current = new RunTerminal();
+        }
+        return RunTerminal.current;
+    }
+
+    /**
+     * Constructs this class and the vscode terminal that displays it
+     */
+    private constructor() {
+        this._terminal = vscode.window.createTerminal({ name : RunTerminal.terminalName, pty : this });
+    }
+
+    /**
+     * called by vscode when the terminal is ready to display text
+     */
+    open() {
+        this._isOpen = true;
+        for (let text of this._buffer) { this._writeEmitter.fire(text); }
+        this._buffer = [];
+    }
+
+    /**
+     * called by vscode when the user closes the terminal
+     */
+    close() {
+        if (RunTerminal.current === this) { RunTerminal.current = undefined; }
+        this._writeEmitter.dispose();
+        this._closeEmitter.dispose();
+    }
+
+    /**
+     * called by vscode when the user types in the terminal, only ctrl+c does anything
+     * @param data : the text typed by the user
+     */
+    handleInput(data:string) {
+        if (data === "\x03" && this.onInterrupt !== undefined) { this.onInterrupt(); }
+    }
+
+    /**
+     * Writes text to the terminal
+     * @param text : text to write, line endings are converted to what the terminal expects
+     */
+    write(text:string) {
+        text = text.replace(/\r?\n/g, "\r\n");
+        if (this._isOpen) { this._writeEmitter.fire(text); }
+        else { this._buffer.push(text); }
+    }
+
+    /**
+     * Writes a line of text to the terminal
+     * @param text : text to write
+     */
+    writeLine(text:string) { this.write(`${text}\n`); }
+
+    /**
+     * Makes sure the user can see the terminal
+     */
+    show() { this._terminal.show(true); }
+}
+
+/**
+ * Class for a python file being run by this extension as a child process
+ */
+export class PythonRun {
+    // the python file being run
+    readonly file:string;
+    // the child process running the python file
+    readonly process:cp.ChildProcess;
+    // resolves when the child process exits
+    readonly done:Promise<RunResult>;
+    private _killed:boolean = false;
+
+    /**
+     * Starts the python file as a child process
+     * @param python : python interpreter path or command
+     * @param file : python file to run
+     * @param cwd : directory to run the python file in
+     * @param terminal : terminal to stream the output of the run to
+     * @param extraEnv : environment variables to add to the environment of the run
+     */
+    constructor(python:string, file:string, cwd:string, terminal:RunTerminal, extraEnv:NodeJS.ProcessEnv={}) {
+        this.file = file;
+        print(`running "${python}" with "${file}"`);
+        terminal.writeLine(`\x1b[1m> ${describeCommand(python, [file])}\x1b[0m`);
+
+        // makes python flush its output as it is made so it streams to the terminal
+        let env:NodeJS.ProcessEnv = { ...process.env, ...extraEnv };
+        env["PYTHONUNBUFFERED"] = "1";
+        // the interpreter can be a command with arguments, like "py -3"
+        let parts:string[] = splitCommand(python);
+        this.process = cp.spawn(parts[0], parts.slice(1).concat([file]), { cwd : cwd, env : env });
+        terminal.onInterrupt = () => this.kill();
+
+        this.done = new Promise<RunResult>((resolve) => {
+            let stdout:string = "";
+            let stderr:string = "";
+            this.process.stdout?.on("data", (data:Buffer) => {
+                stdout = stdout.concat(data.toString());
+                terminal.write(data.toString());
+            });
+            this.process.stderr?.on("data", (data:Buffer) => {
+                stderr = stderr.concat(data.toString());
+                // stderr is shown in red
+                terminal.write(`\x1b[31m${data.toString()}\x1b[0m`);
+            });
+            // happens if the interpreter could not be started at all
+            this.process.on("error", (err:Error) => {
+                stderr = stderr.concat(err.message);
+                terminal.writeLine(`\x1b[31m${err.message}\x1b[0m`);
+            });
+            this.process.on("close", (code:number|null, signal:string|null) => {
+                terminal.onInterrupt = undefined;
+                if (this._killed) { terminal.writeLine(`\x1b[33mrun of "${path.basename(file)}" was stopped\x1b[0m`); }
+                else { terminal.writeLine(`\x1b[1mexited with code ${code}\x1b[0m`); }
+                print(`run of "${file}" exited with code ${code} and signal ${signal}`);
+                resolve({"code" : code, "signal" : signal, "stdout" : stdout, "stderr" : stderr, "killed" : this._killed});
+            });
+        });
+    }
+
+    /**
+     * Stops the run if it is still going
+     */
+    kill() {
+        if (this.process.exitCode === null && !this.process.killed) {
+            print(`stopping run of "${this.file}"`);
+            this._killed = true;
+            this.process.kill();
+        }
+    }
+}
+
+/**
+ * Runs a python file as a child process owned by this extension, output goes to the run terminal
+ * @param config : configuration of the extension
+ * @param file : python file to run
+ * @param extraEnv : environment variables to add to the environment of the run
+ * @returns the run that was started
+ */
+export function runPythonFile(config:Config, file:string, extraEnv:NodeJS.ProcessEnv={}):PythonRun {
+    let terminal:RunTerminal = RunTerminal.getOrCreate();
+    terminal.show();
+    // the environment variables of the profile in use come first so the run can replace them
+    return new PythonRun(config.userConfig.python, file, config.workspacePath, terminal, { ...config.userConfig.env, ...extraEnv });
+}
+
+/**
+ * Shows a cancellable notification with the elapsed time while a task runs
+ * @param title : title of the notification
+ * @param task : the task to run, gets a token that is cancelled when the user clicks cancel and a function to show a status next to the elapsed time
+ * @param stopToken : also cancels the token of the task, used to stop the task from outside of the notification
+ * @returns what the task returns
+ */
+export async function withRunProgress<T>(title:string, task:(token:vscode.CancellationToken, setStatus:(status:string) => void) => Promise<T>, 
+                                         stopToken?:vscode.CancellationToken):Promise<T> {
+    return await vscode.window.withProgress({
+        location : vscode.ProgressLocation.Notification,
+        title : title,
+        cancellable : true
+    }, async (progress, cancelToken) => {
+        // cancelled by either the cancel button or the stop token
+        let source:vscode.CancellationTokenSource = new vscode.CancellationTokenSource();
+        let listeners:vscode.Disposable[] = [cancelToken, stopToken].map((token) => token?.onCancellationRequested(() => source.cancel()))
+                                                                  .filter((listener):listener is vscode.Disposable => listener !== undefined);
+        if (cancelToken.isCancellationRequested || stopToken?.isCancellationRequested) { source.cancel(); }
+        let token:vscode.CancellationToken = source.token;
+        let start:number = Date.now();
+        let status:string = "";
+        let report = () => {
+            let elapsed:string = `${Math.round((Date.now() - start)/1000)}s elapsed`;
+            progress.report({ message : status.length ? `${status}, ${elapsed}` : elapsed });
+        };
+        // updating the elapsed time every second
+        let ticker:NodeJS.Timeout = setInterval(report, 1000);
+        try { return await task(token, (value:string) => { status = value; report(); }); }
+        finally {
+            clearInterval(ticker);
+            listeners.forEach((listener) => listener.dispose());
+            source.dispose();
+        }
+    });
+}
+
+/**
+ * Runs a python file as a child process and waits for it to make the trigger file
+ * @param config : configuration of the extension
+ * @param file : python file to run
+ * @param token : stops the run when cancelled
+ * @param extraEnv : environment variables to add to the environment of the run
+ * @returns the result of the run and how waiting for the trigger file ended
+ */
+export async function runPythonFileAndWait(config:Config, file:string, token:vscode.CancellationToken, extraEnv:NodeJS.ProcessEnv={}):Promise<RunOutcome> {
+    let run:PythonRun = runPythonFile(config, file, extraEnv);
+    // the cancel button stops the run
+    let listener:vscode.Disposable = token.onCancellationRequested(() => run.kill());
+    if (token.isCancellationRequested) { run.kill(); }
+    // stops waiting for the trigger file once the run is over
+    let waitSource:vscode.CancellationTokenSource = new vscode.CancellationTokenSource();
+    let trigger:Promise<TriggerStatus> = waitForTriggerFile(config, config.userConfig.timeout, waitSource.token);
+    // hitting the time limit also stops the run
+    trigger.then((status) => { if (status === "timeout") { run.kill(); } });
+
+    try {
+        let result:RunResult = await run.done;
+        if (!(result.killed)) {
+            // giving the file system events a moment to arrive, the python module also makes the trigger file when the file fails
+            setTimeout(() => waitSource.cancel(), triggerGracePeriod*1000);
+        } else {
+            waitSource.cancel();
+        }
+        return {"result" : result, "trigger" : await trigger};
+    } finally {
+        listener.dispose();
+        waitSource.dispose();
+    }
+}
+
+/**
+ * Runs a python file as a child process and waits for it to make the trigger file, shows the progress to the user
+ * @param config : configuration of the extension
+ * @param file : python file to run
+ * @param extraEnv : environment variables to add to the environment of the run
+ * @param stopToken : stops the run when cancelled
+ * @returns the result of the run and how waiting for the trigger file ended
+ */
+export async function runPythonFileWithProgress(config:Config, file:string, extraEnv:NodeJS.ProcessEnv={}, stopToken?:vscode.CancellationToken):Promise<RunOutcome> {
+    return await withRunProgress(`Running "${path.basename(file)}"`, async (token) => await runPythonFileAndWait(config, file, token, extraEnv), stopToken);
+}
+
+/**
+ * Runs a python file in an interactive terminal, use this when the python file needs stdin
+ * @param config : configuration of the extension
+ * @param file : python file to run
+ */
+export function runPythonFileInTerminal(config:Config, file:string) {
+    // if there is an active terminal in editor
+    let term:vscode.Terminal|undefined = vscode.window.activeTerminal;
+    if (Object.keys(config.userConfig.env).length) {
+        // the environment variables of the profile in use can only be set when making a terminal, so it gets its own terminal
+        let name:string = `UC_Q ${config.userConfig.activeProfile}`;
+        term = vscode.window.terminals.find((terminal) => terminal.name === name);
+        if (term === undefined) {
+            print(`creating terminal for profile "${config.userConfig.activeProfile}"`);
+            term = vscode.window.createTerminal({ name : name, cwd : config.workspacePath, env : config.userConfig.env });
+        }
+    // the run terminal can not take input, so do not use it
+    } else if (term === undefined || term.name === RunTerminal.terminalName) {
+        // if here, then there was no usable terminal so one is made
+        print("creating terminal and sending to it");
+        term = vscode.window.createTerminal();
+    } else {
+        print("Sending to active terminal");
+    }
+    // making sure the user can see the terminal
+    term.show(true);
+    // sending the python command to the terminal to execute the python file
+    term.sendText(describeCommand(config.userConfig.python, [file]));
+}
@@ -1,12 +1,8 @@
 import * as path from 'path';
 import * as fs from "fs";
 import * as vscode from 'vscode';
-import * as cp from "child_process";
-import * as util from "util";
 import { Config } from './config';
 
-const execProm = util.promisify(cp.exec);
-
 //Create output channel
 export let out = vscode.window.createOutputChannel("UC_Q");
 
@@ -14,9 +10,10 @@ export let out = vscode.window.createOutputChannel("UC_Q");
 export function print(msg:string) { out.appendLine(`- ${msg}`); }
 
 // declaring types for easy of use later
-export type InfoInnerType = {"path" : string, "exe" : string, "pip" : string, "hasQiskit" : boolean};
+export type InfoInnerType = {"path" : string, "exe" : string, "pip" : string, "hasQiskit" : boolean, "version"? : string};
 export type InfoType = {[name:string] : InfoInnerType};
 export type ConfigType = {[key : string] : string|boolean};
+export type TriggerStatus = "found" | "timeout" | "cancelled";
 
 /**
  * trims everything but the last file/directory of a path
@@ -56,120 +53,62 @@ export function info(msg:string) {
 }
 
 /**
- * delays the execution of the code by the specified milliseconds
- * @param ms : time in milliseconds to delay
- * @returns a promise function that delays the code
- */
-export async function delay(ms: number) { return new Promise( resolve => setTimeout(resolve, ms)); }
-
-/**
- * Executes a commands and returns a boolean indicating if it suceeded
- * @param command : string to execute on the system
- * @returns a boolean indicating if the command succeeded
+ * Escapes the characters of the inputted text that have a meaning in html
+ * @param text : text to escape
+ * @returns the text that can be safely put in html
  */
-export async function tryCommand(command:string):Promise<boolean> {
-    let toReturn:boolean = false;
-    try {
-        await execProm(command).then(
-            (err) => {
-                if (err.stderr.length) {
-                    // ignores deprication error
-                    if (err.stderr.indexOf("ERROR") === -1) {
-                        if (err.stderr.indexOf("DEPRECATION") === -1 && err.stderr.indexOf("WARNING") === -1) { // accounts for pip package problems
-                            toReturn = false; 
-                            print(`Encountered error "${err.stderr.replace("\n", " ")}" while running "${command}"`);
-                        } else {
-                            print(`Ignoring error "${err.stderr.replace("\n", " ")}" from command "${command}"`);
-                            toReturn = true;
-                        }
-                    } else {
-                        print(`Encountered error "${err.stderr.replace("\n", " ")}" while running "${command}"`);
-                    }
-                } else { toReturn = true; }
-                //else { error(`from try command ${err.stderr.toString()}`); }
-            }
-        );
-    } catch ( e ) {
-        print(`Encountered error "${(e as Error).message.replace("\n", " ")}" while running "${command}"`);
-        toReturn = false;
-    }
-    return toReturn;
+export function escapeHtml(text:string):string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
 }
 
 /**
- * Executes a commands and returns the stdout of the command
- * @param command : string to execute on the system
- * @returns a string that is the stdout of the command if no error was encountered
+ * delays the execution of the code by the specified milliseconds
+ * @param ms : time in milliseconds to delay
+ * @returns a promise function that delays the code
  */
- export async function getOutputOfCommand(command:string):Promise<string> {
-    let toReturn:string = "";
-    try {
-        await execProm(command).then(
-            (err) => {
-                if (err.stderr.length) {
-                    // ignores deprication error
-                    if (err.stderr.indexOf("ERROR") === -1) {
-                        if (err.stderr.indexOf("DEPRECATION") === -1 && err.stderr.indexOf("WARNING") === -1) { // accounts for pip package problems
-                            print(`Encountered error "${err.stderr.replace("\n", " ")}" while running "${command}"`);
-                            return;
-                        } else {
-                            print(`Ignoring error "${err.stderr.replace("\n", " ")}" from command "${command}"`);
-                        }
-                    } else {
-                        print(`Encountered error "${err.stderr.replace("\n", " ")}" while running "${command}"`);
-                        return;
-                    }
-                }
-                // if here then no errors where encountered when runnin the command
-                if (err.stdout.length) { toReturn = err.stdout; }
-            }
-        );
-    } catch ( e ) {
-        print(`Encountered error "${(e as Error).message.replace("\n", " ")}" while running "${command}"`);
-    }
-    return toReturn;
-}
+export async function delay(ms: number) { return new Promise( resolve => setTimeout(resolve, ms)); }
 
 /**
- * Waits for the trigger file (a file that lets the execution of this extension continue)
+ * Waits for the trigger file (a file that lets the execution of this extension continue) using file system events,
+ * the file is left in place so it can be read with readTriggerFile
  * @param config : current configuration of the extension
+ * @param timeout : seconds to wait before giving up, 0 means wait forever
+ * @param token : cancels the wait when requested
+ * @returns "found" if the trigger file was made, "timeout" if the time limit was hit, or "cancelled" if the wait was cancelled
  */
-export async function waitForTriggerFile(config:Config) {
-    // how many times the loop can run waiting for the trigger file
-    let stop:number = 200;
-    let i:number = 0;
-    // while loop that waits for the file
-    while (true) {
-        if (fs.existsSync(config.triggerFile)) { break; } 
-        else { await delay(100); } /// short delay so things don't get crazy
-        // caps the iterations just in case it runs away
-        if (i === stop) { 
-            error("hit time limit waiting for file, maybe there is a problem or your circuit just takes a bit to execute (no worries if so)");
-            break; 
+export async function waitForTriggerFile(config:Config, timeout:number, token?:vscode.CancellationToken):Promise<TriggerStatus> {
+    let status:TriggerStatus = await new Promise<TriggerStatus>((resolve) => {
+        let watcher:fs.FSWatcher|undefined;
+        let timer:NodeJS.Timeout|undefined;
+        let listener:vscode.Disposable|undefined;
+        let finished:boolean = false;
+        // cleans up everything made to wait for the file and returns the status
+        let finish = (value:TriggerStatus) => {
+            if (finished) { return; }
+            finished = true;
+            watcher?.close();
+            if (timer !== undefined) { clearTimeout(timer); }
+            listener?.dispose();
+            resolve(value);
+        };
+        // watching the config directory because the trigger file does not exist yet
+        try {
+            watcher = fs.watch(config.configDir, () => {
+                if (fs.existsSync(config.triggerFile)) { finish("found"); }
+            });
+        } catch ( e ) {
+            print(`could not watch "${config.configDir}": ${(e as Error).message}`);
         }
-        i++;
-    }
-    // removes the trigger file when done
-    try { await fs.promises.rm(config.triggerFile); } 
-    catch ( e ) {
-        error(`caught error while removing trigger file: ${(e as Error).message.replace("\n", " ")}`);
-    }
-}
-
-/**
- * converts a version string to a float used to compare against another
- * @param version Semantic version string
- * @returns float of the version
- */
-export async function semmanticVersionToNum(version:string):Promise<number> {
-    let toReturn:number = 0;
-    let base:number = 100;
-    let arr:string[] = version.split(".");
-    for (let i = 0; i < arr.length; i++) {
-        toReturn+= +arr[i]/(base**i);
-    }
-    //print(`Version to num: ${toReturn.toString()}`);
-    return toReturn;
+        if (token !== undefined) {
+            listener = token.onCancellationRequested(() => finish("cancelled"));
+            if (token.isCancellationRequested) { finish("cancelled"); }
+        }
+        if (timeout > 0) { timer = setTimeout(() => finish("timeout"), timeout*1000); }
+        // the file could have been made before the watcher started
+        if (fs.existsSync(config.triggerFile)) { finish("found"); }
+    });
+    print(`finished waiting for trigger file with status "${status}"`);
+    return status;
 }
 
 /**
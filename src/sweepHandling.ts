@@ -0,0 +1,274 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { Config } from "./config";
+import { runPythonFileAndWait, withRunProgress, RunOutcome } from "./runHandling";
+import { readTriggerFile, TriggerMessage } from "./triggerHandling";
+import { snapshotRun, getRunLayoutFile, RunRecord } from "./historyHandling";
+import { resolveLayoutPaths } from "./layoutHandling";
+import { print, error, escapeHtml } from "./src";
+
+// declaring types for the sweep (for ease of use later)
+export type SweepValue = number|string;
+export type SweepPoint = {[name:string] : SweepValue};
+export type SweepDefinition = {
+    // the values of each parameter, the python file is run once for every combination
+    "parameters" : {[name:string] : SweepValue[]},
+    // bitstring whose probability (from the first counts of each run) is plotted against the parameters, optional
+    "metric"? : string
+};
+type SweepResult = {"point" : SweepPoint, "record" : RunRecord|undefined, "failure" : string};
+
+/**
+ * Checks that the inputted object is a valid sweep definition
+ * @param obj : the parsed json of the sweep file
+ * @returns the object as a sweep definition
+ */
+function validateSweepDefinition(obj:any):SweepDefinition {
+    if (typeof obj !== "object" || obj === null || typeof obj.parameters !== "object" || obj.parameters === null || Array.isArray(obj.parameters)) {
+        throw new SyntaxError(`sweep file must have "parameters", an object that maps parameter names to lists of values`);
+    }
+    if (!(Object.keys(obj.parameters).length)) {
+        throw new SyntaxError(`"parameters" of the sweep file must have at least one parameter`);
+    }
+    for (let name in obj.parameters) {
+        if (!(/^[A-Za-z_]\w*$/.test(name))) {
+            throw new SyntaxError(`parameter "${name}" in the sweep file must be a valid variable name`);
+        }
+        let values:any = obj.parameters[name];
+        if (!(Array.isArray(values)) || !(values.length) || values.some((val:any) => typeof val !== "number" && typeof val !== "string")) {
+            throw new SyntaxError(`values of parameter "${name}" in the sweep file must be a list of numbers or strings`);
+        }
+    }
+    if (obj.metric !== undefined && typeof obj.metric !== "string") {
+        throw new SyntaxError(`"metric" of the sweep file must be a bitstring`);
+    }
+    return obj as SweepDefinition;
+}
+
+/**
+ * Asks the user for the parameters to sweep and offers to save them to the sweep file
+ * @param config : configuration of the extension
+ * @returns the sweep definition from the user
+ */
+async function promptSweepDefinition(config:Config):Promise<SweepDefinition> {
+    let input:string|undefined = await vscode.window.showInputBox({
+        title : "Parameters to sweep",
+        prompt : `Parameters and their values, like "theta=0,0.785,1.571; n=2,3" (or make "${config.sweepFile}")`,
+        ignoreFocusOut : true
+    });
+    if (input === undefined || !(input.trim().length)) {
+        error("no parameters to sweep were given");
+    }
+    let definition:any = {"parameters" : {}};
+    for (let part of (input as string).split(";").filter((val) => val.trim().length)) {
+        if (part.indexOf("=") === -1) {
+            error(`"${part.trim()}" must look like "name=value1,value2"`);
+        }
+        let name:string = part.slice(0, part.indexOf("=")).trim();
+        // values that are numbers are passed as numbers, everything else as strings
+        definition.parameters[name] = part.slice(part.indexOf("=")+1).split(",").map((val) => val.trim()).filter((val) => val.length)
+                                          .map((val) => isNaN(+val) ? val : +val);
+    }
+    let metric:string|undefined = await vscode.window.showInputBox({
+        title : "Metric to plot (optional)",
+        prompt : "Bitstring whose probability is plotted against the parameters, leave empty for no plot",
+        ignoreFocusOut : true
+    });
+    if (metric !== undefined && metric.trim().length) { definition.metric = metric.trim(); }
+
+    try { definition = validateSweepDefinition(definition); }
+    catch ( e ) { error((e as Error).message); }
+
+    let choice:string|undefined = await vscode.window.showInformationMessage(`Do you want to save this sweep to "${config.sweepFile}" to use it next time?`, config.yes, config.no);
+    if (choice === config.yes) {
+        try { await fs.promises.writeFile(config.sweepFile, JSON.stringify(definition, null, 4)); }
+        catch ( e ) { error(`could not save sweep file: ${(e as Error).message}`); }
+    }
+    return definition as SweepDefinition;
+}
+
+/**
+ * Gets the sweep definition from the sweep file, or from the user if there is no sweep file
+ * @param config : configuration of the extension
+ * @returns the sweep definition
+ */
+export async function getSweepDefinition(config:Config):Promise<SweepDefinition> {
+    if (!(fs.existsSync(config.sweepFile))) { return await promptSweepDefinition(config); }
+    print(`Reading sweep from ${config.sweepFile}`);
+    try {
+        return validateSweepDefinition(JSON.parse((await fs.promises.readFile(config.sweepFile)).toString()));
+    } catch ( e ) {
+        error(`could not read "${config.sweepFile}": ${(e as Error).message}`);
+        throw e;
+    }
+}
+
+/**
+ * Gets every combination of the values of the parameters of a sweep
+ * @param definition : the sweep definition
+ * @returns the combinations, the last parameter changes fastest
+ */
+export function getSweepPoints(definition:SweepDefinition):SweepPoint[] {
+    let toReturn:SweepPoint[] = [{}];
+    for (let name in definition.parameters) {
+        toReturn = toReturn.flatMap((point) => definition.parameters[name].map((val) => { return { ...point, [name] : val }; }));
+    }
+    return toReturn;
+}
+
+/**
+ * Gets the environment variables that pass a combination of parameters to the python file, each parameter is in
+ * "UCQ_PARAM_<name>" and all of them are in "UCQ_PARAMS" as json
+ * @param point : the combination of parameters
+ * @returns the environment variables
+ */
+export function getSweepEnv(point:SweepPoint):NodeJS.ProcessEnv {
+    let toReturn:NodeJS.ProcessEnv = {};
+    toReturn["UCQ_PARAMS"] = JSON.stringify(point);
+    for (let name in point) { toReturn[`UCQ_PARAM_${name}`] = point[name].toString(); }
+    return toReturn;
+}
+
+/**
+ * Makes a label for a combination of parameters
+ * @param point : the combination of parameters
+ * @returns the label
+ */
+function describePoint(point:SweepPoint):string {
+    return Object.keys(point).map((name) => `${name}=${point[name]}`).join(", ");
+}
+
+/**
+ * Tiles panes into a grid by splitting them in half, alternating between left/right and top/bottom, note: the style
+ * of the right or top pane of a split sets the size of that pane
+ * @param panes : layouts of the panes
+ * @param horizontal : whether to split left/right first
+ * @returns layout of the grid
+ */
+function tile(panes:any[], horizontal:boolean=true):any {
+    if (panes.length === 1) { return panes[0]; }
+    let half:number = Math.ceil(panes.length/2);
+    let first:any = tile(panes.slice(0, half), !horizontal);
+    let second:any = tile(panes.slice(half), !horizontal);
+    if (horizontal) {
+        return {"left" : first, "right" : {"only" : second, "style" : `size:${(panes.length - half)/panes.length};`}};
+    }
+    return {"top" : {"only" : first, "style" : `size:${half/panes.length};`}, "bottom" : second};
+}
+
+/**
+ * Makes the layout of the pane for one run of the sweep
+ * @param config : configuration of the extension
+ * @param result : the result of the run
+ * @returns the layout of the pane
+ */
+async function paneLayout(config:Config, result:SweepResult):Promise<any> {
+    let content:any;
+    let message:TriggerMessage|undefined = result.record?.trigger;
+    if (result.record === undefined) {
+        content = `<pre style="white-space:pre-wrap;color:var(--vscode-errorForeground);">${escapeHtml(result.failure)}</pre>`;
+    } else if (message !== undefined && message.status === "error" && message.error !== undefined) {
+        content = `<pre style="white-space:pre-wrap;color:var(--vscode-errorForeground);">${escapeHtml(message.error.traceback)}</pre>`;
+    } else {
+        // the layout is shown from the sweep layout file, so the paths of its images are made absolute to keep pointing at the files of this run
+        let layoutFile:string = getRunLayoutFile(config, result.record);
+        try { content = resolveLayoutPaths(JSON.parse((await fs.promises.readFile(layoutFile)).toString()), path.dirname(layoutFile)); }
+        catch ( e ) { content = `<p>could not read the layout of this run: ${escapeHtml((e as Error).message)}</p>`; }
+    }
+    return {"top" : {"only" : `<h3>${escapeHtml(describePoint(result.point))}</h3>`, "style" : "size:0.1;"}, "bottom" : content};
+}
+
+/**
+ * Gets the probability of a bitstring in the first counts of a run
+ * @param record : the recorded run
+ * @param bitstring : the bitstring
+ * @returns the probability, undefined if the run has no counts
+ */
+function getProbability(record:RunRecord|undefined, bitstring:string):number|undefined {
+    let counts = record?.trigger.counts;
+    if (counts === undefined || !(counts.length)) { return undefined; }
+    let total:number = Object.values(counts[0]).reduce((sum, val) => sum + val, 0);
+    return total > 0 ? (counts[0][bitstring] ?? 0)/total : undefined;
+}
+
+/**
+ * Makes html for a plot of the metric against the parameters of the sweep
+ * @param results : results of the runs of the sweep
+ * @param metric : the bitstring whose probability is plotted
+ * @returns html of the plot
+ */
+function plotHtml(results:SweepResult[], metric:string):string {
+    let width:number = 600;
+    let height:number = 300;
+    let margin:number = 40;
+    let x = (i:number) => margin + (results.length > 1 ? i*(width - 2*margin)/(results.length - 1) : (width - 2*margin)/2);
+    let y = (val:number) => height - margin - val*(height - 2*margin);
+    let svg:string[] = [];
+    // axes and grid lines at 0, 0.5 and 1
+    for (let val of [0, 0.5, 1]) {
+        svg.push(`<line x1="${margin}" y1="${y(val)}" x2="${width - margin}" y2="${y(val)}" style="stroke:var(--vscode-editorWidget-border);stroke-width:1;"/>`);
+        svg.push(`<text x="${margin - 5}" y="${y(val) + 4}" text-anchor="end" style="fill:var(--vscode-foreground);font-size:10px;">${val}</text>`);
+    }
+    let points:string[] = [];
+    results.forEach((result, i) => {
+        svg.push(`<text x="${x(i)}" y="${height - margin + 15}" text-anchor="middle" style="fill:var(--vscode-foreground);font-size:10px;">${escapeHtml(describePoint(result.point))}</text>`);
+        let val:number|undefined = getProbability(result.record, metric);
+        if (val !== undefined) {
+            points.push(`${x(i)},${y(val)}`);
+            svg.push(`<circle cx="${x(i)}" cy="${y(val)}" r="4" style="fill:var(--vscode-charts-blue);"><title>${val.toFixed(4)}</title></circle>`);
+        }
+    });
+    svg.unshift(`<polyline points="${points.join(" ")}" style="fill:none;stroke:var(--vscode-charts-blue);stroke-width:2;"/>`);
+    return `<h3>Probability of ${escapeHtml(metric)}</h3>` +
+           `<svg viewBox="0 0 ${width} ${height}" style="width:100%;height:85%;">${svg.join("")}</svg>`;
+}
+
+/**
+ * Runs a python file once for every combination of the parameters of a sweep and writes a layout showing the results
+ * @param config : configuration of the extension
+ * @param file : python file to run
+ * @param stopToken : stops the sweep when cancelled
+ * @returns path to the layout file showing the results
+ */
+export async function runSweep(config:Config, file:string, stopToken?:vscode.CancellationToken):Promise<string> {
+    let definition:SweepDefinition = await getSweepDefinition(config);
+    let points:SweepPoint[] = getSweepPoints(definition);
+    print(`Sweeping "${file}" over ${points.length} combinations of parameters`);
+
+    let results:SweepResult[] = await withRunProgress(`Sweeping "${path.basename(file)}"`, async (token, setStatus) => {
+        let toReturn:SweepResult[] = [];
+        for (let i = 0; i < points.length && !(token.isCancellationRequested); i++) {
+            setStatus(`run ${i+1} of ${points.length} (${describePoint(points[i])})`);
+            let result:SweepResult = {"point" : points[i], "record" : undefined, "failure" : ""};
+            // removing a trigger file left over from an earlier run so it is not mistaken for this one
+            await fs.promises.rm(config.triggerFile, { force : true });
+            let outcome:RunOutcome = await runPythonFileAndWait(config, file, token, getSweepEnv(points[i]));
+            if (outcome.trigger === "found") {
+                // problems are already shown to the user, so only recording that this run failed
+                try { result.record = await snapshotRun(config, file, await readTriggerFile(config, file)); }
+                catch ( e ) { result.failure = (e as Error).message; }
+            } else if (outcome.trigger === "timeout") {
+                result.failure = `hit the time limit of ${config.userConfig.timeout}s`;
+            } else {
+                result.failure = outcome.result.stderr.length ? outcome.result.stderr : `exited with code ${outcome.result.code} without output for the viewer`;
+            }
+            toReturn.push(result);
+        }
+        return toReturn;
+    }, stopToken);
+    if (!(results.length)) {
+        error("Sweep was stopped before any runs finished");
+    }
+
+    let panes:any[] = [];
+    for (let result of results) { panes.push(await paneLayout(config, result)); }
+    let layout:any = tile(panes);
+    if (definition.metric !== undefined) {
+        layout = {"top" : {"only" : plotHtml(results, definition.metric), "style" : "size:0.35;"}, "bottom" : layout};
+    }
+    print(`Writing sweep layout to ${config.sweepLayoutFile}`);
+    try { await fs.promises.writeFile(config.sweepLayoutFile, JSON.stringify(layout, null, 4)); }
+    catch ( e ) { error(`could not write sweep layout: ${(e as Error).message}`); }
+    return config.sweepLayoutFile;
+}
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Config } from '../../config';
+import { getCells, getCellAt, getSelectionCell, writeCellFile } from '../../cellHandling';
+
+/**
+ * Makes a python file that is only in memory, with what the cell functions read of a document
+ * @param lines : lines of the file
+ * @returns the document
+ */
+function documentOf(lines:string[]):vscode.TextDocument {
+	return {"fileName" : "main.py", "lineCount" : lines.length, "lineAt" : (line:number) => ({"text" : lines[line]})} as unknown as vscode.TextDocument;
+}
+
+/**
+ * Makes a selection from one line and character to another
+ * @param startLine : line the selection starts on
+ * @param startCharacter : character the selection starts at
+ * @param endLine : line the selection ends on
+ * @param endCharacter : character the selection ends at
+ * @returns the selection
+ */
+function selectionOf(startLine:number, startCharacter:number, endLine:number, endCharacter:number):vscode.Selection {
+	return {"start" : {"line" : startLine, "character" : startCharacter}, "end" : {"line" : endLine, "character" : endCharacter}} as vscode.Selection;
+}
+
+// a file with lines before the first cell and three cells, the last cell uses names from the first two
+const file:string[] = [
+	"from qiskit import QuantumCircuit",            // 0
+	"# %% make the circuit",                        // 1
+	"qc = QuantumCircuit(2)",                       // 2
+	"unused = 5",                                   // 3
+	"#%%",                                          // 4
+	"qc.h(0)",                                      // 5
+	"# %% show it",                                 // 6
+	"    print(qc)  # indented"                     // 7
+];
+
+suite('cellHandling', () => {
+	test('splits a file into cells at each "# %%"', () => {
+		assert.deepStrictEqual(getCells(documentOf(file)), [{"start" : 0, "end" : 0}, {"start" : 1, "end" : 3}, {"start" : 4, "end" : 5}, {"start" : 6, "end" : 7}]);
+		// a marker on the first line does not make an empty cell before it
+		assert.deepStrictEqual(getCells(documentOf(["# %%", "x = 1"])), [{"start" : 0, "end" : 1}]);
+		assert.deepStrictEqual(getCells(documentOf(["x = 1"])), [{"start" : 0, "end" : 0}]);
+	});
+
+	test('finds the cell of a line', () => {
+		assert.deepStrictEqual(getCellAt(documentOf(file), 3), {"start" : 1, "end" : 3});
+		assert.deepStrictEqual(getCellAt(documentOf(file), 6), {"start" : 6, "end" : 7});
+	});
+
+	test('gets the lines of a selection', () => {
+		assert.deepStrictEqual(getSelectionCell(selectionOf(2, 4, 5, 3)), {"start" : 2, "end" : 5});
+		// a selection that ends at the start of a line does not include it
+		assert.deepStrictEqual(getSelectionCell(selectionOf(2, 0, 5, 0)), {"start" : 2, "end" : 4});
+		assert.deepStrictEqual(getSelectionCell(selectionOf(2, 0, 2, 0)), {"start" : 2, "end" : 2});
+	});
+
+	suite('writing the cell file', () => {
+		let dir:string = "";
+		let config = {} as Config;
+		suiteSetup(async () => {
+			dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "ucq-cell-"));
+			config = {"cellFile" : path.join(dir, "cell.py")} as Config;
+		});
+		suiteTeardown(async () => {
+			await fs.promises.rm(dir, { recursive : true, force : true });
+		});
+
+		test('runs the earlier cells the target depends on', async () => {
+			await writeCellFile(config, documentOf(file), {"start" : 6, "end" : 7});
+			// the lines stay where they were so line numbers in errors match the file, the indentation of the target is removed
+			assert.deepStrictEqual((await fs.promises.readFile(config.cellFile, "utf8")).split("\n"), [
+				"from qiskit import QuantumCircuit",
+				"# %% make the circuit",
+				"qc = QuantumCircuit(2)",
+				"unused = 5",
+				"#%%",
+				"qc.h(0)",
+				"# %% show it",
+				"print(qc)  # indented"
+			]);
+		});
+
+		test('leaves out cells the target does not need', async () => {
+			await writeCellFile(config, documentOf(["import math", "# %%", "x = 1", "# %%", "print(math.pi)"]), {"start" : 3, "end" : 4});
+			assert.deepStrictEqual((await fs.promises.readFile(config.cellFile, "utf8")).split("\n"), ["import math", "", "", "# %%", "print(math.pi)"]);
+		});
+	});
+});
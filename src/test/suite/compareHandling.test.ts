@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Config } from '../../config';
+import { RunRecord } from '../../historyHandling';
+import { Counts } from '../../triggerHandling';
+import { toDistribution, totalVariationDistance, hellingerFidelity, makeCompareLayout } from '../../compareHandling';
+import { validateLayout } from '../../layoutHandling';
+
+/**
+ * Makes a recorded run with measurement counts
+ * @param counts : measurement counts of each call to counts in the run
+ * @returns the recorded run
+ */
+function recordOf(counts:Counts[]):RunRecord {
+	return {
+		"id" : "run", "time" : 0, "file" : "main.py", "hash" : "", "python" : "python3",
+		"trigger" : {"version" : 1, "status" : "success", "file" : "main.py", "start" : 0, "end" : 0, "outputs" : [], "counts" : counts}
+	};
+}
+
+/**
+ * Checks that two numbers are equal up to rounding
+ * @param actual : the computed number
+ * @param expected : the number it should be
+ */
+function assertClose(actual:number, expected:number) {
+	assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} should be ${expected}`);
+}
+
+suite('compareHandling', () => {
+	test('turns counts into probabilities', () => {
+		assert.deepStrictEqual(toDistribution({"00" : 3, "11" : 1}), {"00" : 0.75, "11" : 0.25});
+		assert.deepStrictEqual(toDistribution({"00" : 0}), {"00" : 0});
+		assert.deepStrictEqual(toDistribution({}), {});
+	});
+
+	test('computes the total variation distance', () => {
+		assertClose(totalVariationDistance({"00" : 0.5, "11" : 0.5}, {"00" : 0.5, "11" : 0.5}), 0);
+		assertClose(totalVariationDistance({"00" : 1}, {"11" : 1}), 1);
+		assertClose(totalVariationDistance({"00" : 0.5, "11" : 0.5}, {"00" : 0.75, "01" : 0.25}), 0.5);
+		// it does not depend on the order of the distributions
+		assertClose(totalVariationDistance({"00" : 0.75, "01" : 0.25}, {"00" : 0.5, "11" : 0.5}), 0.5);
+	});
+
+	test('computes the hellinger fidelity like qiskit', () => {
+		assertClose(hellingerFidelity({"00" : 0.5, "11" : 0.5}, {"00" : 0.5, "11" : 0.5}), 1);
+		assertClose(hellingerFidelity({"00" : 1}, {"11" : 1}), 0);
+		// (sqrt(0.5*0.25) + sqrt(0.5*0.75))^2
+		assertClose(hellingerFidelity({"00" : 0.5, "11" : 0.5}, {"00" : 0.25, "11" : 0.75}), (Math.sqrt(0.125) + Math.sqrt(0.375))**2);
+	});
+
+	test('writes a valid layout comparing two runs', async () => {
+		let dir:string = await fs.promises.mkdtemp(path.join(os.tmpdir(), "ucq-compare-"));
+		try {
+			let config = {"compareLayoutFile" : path.join(dir, "compare_layout.json")} as Config;
+			let layoutFile:string = await makeCompareLayout(config, recordOf([{"00" : 512, "11" : 512}]), recordOf([{"00" : 1000, "01" : 24}]));
+			assert.strictEqual(layoutFile, config.compareLayoutFile);
+			let layout = JSON.parse(await fs.promises.readFile(layoutFile, "utf8"));
+			assert.deepStrictEqual(validateLayout(layout).filter((problem) => problem.severity === vscode.DiagnosticSeverity.Error), []);
+			assert.ok(layout.bottom.indexOf("Total variation distance") !== -1);
+			assert.ok(layout.bottom.indexOf("1024") !== -1);
+		} finally {
+			await fs.promises.rm(dir, { recursive : true, force : true });
+		}
+	});
+});
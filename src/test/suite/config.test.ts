@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { UserConfig } from '../../config';
+
+/**
+ * Makes a user config that is set up, without reading the settings
+ * @param values : the attributes that are not the defaults of a set up user config
+ * @returns the user config
+ */
+function userConfigOf(values:Partial<UserConfig>):UserConfig {
+	let toReturn:UserConfig = new UserConfig(undefined);
+	toReturn.python = "python3";
+	toReturn.pip = "python3 -m pip";
+	return Object.assign(toReturn, values);
+}
+
+suite('config', () => {
+	test('accepts python as a command or a path that exists', () => {
+		assert.doesNotThrow(() => userConfigOf({}).check());
+		assert.doesNotThrow(() => userConfigOf({"python" : process.execPath}).check());
+		assert.ok(userConfigOf({}).isSet());
+	});
+
+	test('says which setting is wrong', () => {
+		let invalid:[Partial<UserConfig>, RegExp][] = [
+			[{"python" : ""}, /python is not set up, set "uc-quantum-lab.python"/],
+			[{"python" : path.join(os.tmpdir(), "no such dir", "python")}, /python path from "uc-quantum-lab.python" .* does not exist/],
+			[{"pip" : ""}, /pip is not set up, set "uc-quantum-lab.pip"/],
+			[{"wheelhouse" : path.join(os.tmpdir(), "no such wheelhouse")}, /wheelhouse from "uc-quantum-lab.wheelhouse" .* does not exist/],
+			[{"timeout" : -1}, /timeout from "uc-quantum-lab.timeout" "-1" must be a number of seconds/]
+		];
+		for (let [values, message] of invalid) {
+			assert.throws(() => userConfigOf(values).check(), message);
+		}
+		assert.ok(!(userConfigOf({"pip" : ""}).isSet()));
+	});
+
+	test('describes the profile in use', () => {
+		let profiles = {"gpu" : {"python" : "/opt/conda/envs/gpu/bin/python", "pip" : "/opt/conda/envs/gpu/bin/python -m pip"}};
+		assert.strictEqual(userConfigOf({}).describe(), "python3");
+		assert.strictEqual(userConfigOf({"python" : ""}).describe(), "python not set up");
+		assert.strictEqual(userConfigOf({"profiles" : profiles, "activeProfile" : "gpu"}).describe(), "gpu");
+		assert.strictEqual(userConfigOf({"profiles" : profiles, "activeProfile" : "cpu"}).describe(), "cpu (missing)");
+	});
+
+	test('says when the profile in use does not exist', () => {
+		assert.throws(() => userConfigOf({"profiles" : {}, "activeProfile" : "cpu"}).check(), /profile "cpu" from "uc-quantum-lab.activeProfile" is not in "uc-quantum-lab.profiles"/);
+	});
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { Config } from '../../config';
+import { formatDoctorReport, DoctorCheck } from '../../doctorHandling';
+
+// only what the report reads from the configuration
+const config = {"workspacePath" : "/home/user/circuits", "userConfig" : {"describe" : () => "python3"}} as unknown as Config;
+
+suite('doctorHandling', () => {
+	test('reports every check in a table', () => {
+		let checks:DoctorCheck[] = [
+			{"name" : "Python", "status" : "pass", "detail" : "3.10.12"},
+			{"name" : "qiskit", "status" : "fail", "detail" : "0.36.0 is too old (needs >=0.37)", "fix" : {"label" : "Install qiskit>=0.37", "run" : async () => {}}},
+			{"name" : "Run round trip", "status" : "skip", "detail" : "python does not work"}
+		];
+		let lines:string[] = formatDoctorReport(config, checks).split("\n");
+		assert.strictEqual(lines[0], "# UC Quantum Lab doctor report");
+		assert.ok(lines.indexOf("Workspace folder: `/home/user/circuits`  ") !== -1);
+		assert.ok(lines.indexOf("Profile: python3  ") !== -1);
+		let rows:string[] = lines.filter((line) => line.startsWith("| ") && !(line.startsWith("| | ")));
+		assert.deepStrictEqual(rows, [
+			"| ✅ | Python | 3.10.12 |",
+			"| ❌ | qiskit | 0.36.0 is too old (needs >=0.37) |",
+			"| ➖ | Run round trip | python does not work |"
+		]);
+		assert.ok(lines.indexOf("1 check(s) failed, run `uc-quantum-lab.doctor` again after fixing them.") !== -1);
+	});
+
+	test('keeps each check on one row of the table', () => {
+		let report:string = formatDoctorReport(config, [{"name" : "Pip", "status" : "fail", "detail" : "pip exited with code 1:\nERROR: a | b"}]);
+		assert.ok(report.indexOf("| ❌ | Pip | pip exited with code 1: ERROR: a \\| b |") !== -1, report);
+	});
+
+	test('says when everything works', () => {
+		let report:string = formatDoctorReport(config, [{"name" : "Python", "status" : "pass", "detail" : "3.10.12"}]);
+		assert.ok(report.endsWith("Everything is working.\n"), report);
+	});
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { validateLayout, getLayoutDiagnostics, resolveLayoutPaths, splitStyle } from '../../layoutHandling';
+
+/**
+ * Checks a layout and keeps what is easy to compare of each problem
+ * @param obj : the parsed layout
+ * @returns the path of each problem and whether it is an error
+ */
+function problemsOf(obj:any):[string, "error"|"warning"][] {
+	return validateLayout(obj).map((problem) => [problem.path, problem.severity === vscode.DiagnosticSeverity.Error ? "error" : "warning"]);
+}
+
+suite('layoutHandling', () => {
+	test('accepts every kind of level and content', () => {
+		assert.deepStrictEqual(problemsOf("<h1>counts</h1>"), []);
+		assert.deepStrictEqual(problemsOf({"left" : "a", "right" : {"top" : "b", "bottom" : {"only" : "c", "style" : "size:0.3;color:red"}}}), []);
+		assert.deepStrictEqual(problemsOf({"row" : ["a", {"column" : ["b", "c"]}, {"grid" : ["d", "e", "f"], "columns" : 2}]}), []);
+		assert.deepStrictEqual(problemsOf({"tabs" : {"counts" : {"type" : "image", "src" : "counts.png"}, "state" : {"grid" : [{"type" : "latex", "text" : "x^2"}]}}}), []);
+		assert.deepStrictEqual(problemsOf({"only" : {"type" : "table", "header" : ["a", "b"], "rows" : [[1, 2]]}}), []);
+	});
+
+	test('finds every problem of a level', () => {
+		assert.deepStrictEqual(problemsOf({"left" : "a"}), [["", "error"]]);
+		assert.deepStrictEqual(problemsOf({"left" : "a", "right" : "b", "row" : ["c", "d"]}), [["", "error"]]);
+		assert.deepStrictEqual(problemsOf({"row" : ["a"], "color" : "red"}), [["row", "error"], ["color", "warning"]]);
+		assert.deepStrictEqual(problemsOf({"grid" : ["a"], "columns" : 0}), [["columns", "error"]]);
+		assert.deepStrictEqual(problemsOf({"tabs" : []}), [["tabs", "error"]]);
+		assert.deepStrictEqual(problemsOf({"only" : 3}), [["only", "error"]]);
+		assert.deepStrictEqual(problemsOf([]), [["", "error"]]);
+	});
+
+	test('checks styles and sizes', () => {
+		assert.deepStrictEqual(problemsOf({"only" : "a", "style" : "color:red"}), [["style", "warning"]]);
+		assert.deepStrictEqual(problemsOf({"left" : {"only" : "a", "style" : "size:big"}, "right" : "b"}), [["left.style", "error"]]);
+		assert.deepStrictEqual(problemsOf({"row" : [{"only" : "a", "style" : "size:0.8"}, {"only" : "b", "style" : "size:0.7"}]}), [["", "warning"]]);
+		// panes without a size share what is left
+		assert.deepStrictEqual(problemsOf({"row" : [{"only" : "a", "style" : "size:0.5"}, "b", "c"]}), []);
+		assert.deepStrictEqual(problemsOf({"grid" : [{"only" : "a", "style" : "size:0.5"}]}), [["grid[0].style", "warning"]]);
+	});
+
+	test('does not allow splits inside a grid or tabs', () => {
+		assert.deepStrictEqual(problemsOf({"row" : ["a", {"grid" : [{"left" : "b", "right" : "c"}]}]}), [["row[1].grid[0].left", "error"], ["row[1].grid[0].right", "error"]]);
+		assert.deepStrictEqual(problemsOf({"tabs" : {"counts" : {"row" : ["a", "b"]}}}), [["tabs.counts.row", "error"]]);
+		// a grid or tabs can be inside a split
+		assert.deepStrictEqual(problemsOf({"left" : {"tabs" : {"a" : "a"}}, "right" : {"grid" : ["b"]}}), []);
+	});
+
+	test('checks content with a type', () => {
+		assert.deepStrictEqual(problemsOf({"only" : {"type" : "video"}}), [["only.type", "error"]]);
+		assert.deepStrictEqual(problemsOf({"only" : {"type" : "image"}}), [["only", "error"]]);
+		assert.deepStrictEqual(problemsOf({"only" : {"type" : "image", "src" : 3, "size" : 2}}), [["only.src", "error"], ["only.size", "warning"]]);
+		assert.deepStrictEqual(problemsOf({"only" : {"type" : "markdown", "text" : "a", "left" : "b"}}), [["only.left", "error"]]);
+		assert.deepStrictEqual(problemsOf({"only" : {"type" : "table", "rows" : [[1], {"a" : 1}], "header" : [1]}}), [["only.rows", "error"], ["only.header", "error"]]);
+	});
+
+	test('points diagnostics at where the problem is', () => {
+		let text:string = `{\n    "row" : [\n        "a",\n        {"grid" : [{"left" : "b", "right" : "c"}]}\n    ]\n}`;
+		let diagnostics:vscode.Diagnostic[] = getLayoutDiagnostics(text);
+		assert.deepStrictEqual(diagnostics.map((diagnostic) => diagnostic.code), ["row[1].grid[0].left", "row[1].grid[0].right"]);
+		assert.deepStrictEqual([diagnostics[0].range.start.line, diagnostics[0].range.start.character, diagnostics[0].range.end.character], [3, 20, 26]);
+		// values that span lines are only marked on their first line
+		let multiline:vscode.Diagnostic[] = getLayoutDiagnostics(`{\r\n    "row" : [\r\n        "a"\r\n    ]\r\n}`);
+		assert.strictEqual(multiline[0].code, "row");
+		assert.deepStrictEqual([multiline[0].range.start.line, multiline[0].range.start.character, multiline[0].range.end.line, multiline[0].range.end.character], [1, 4, 1, 9]);
+	});
+
+	test('reports json that can not be parsed', () => {
+		let diagnostics:vscode.Diagnostic[] = getLayoutDiagnostics(`{\n    "only" : "a",\n}`);
+		assert.strictEqual(diagnostics.length, 1);
+		assert.strictEqual(diagnostics[0].severity, vscode.DiagnosticSeverity.Error);
+		assert.strictEqual(diagnostics[0].code, undefined);
+	});
+
+	test('splits the size out of a style', () => {
+		assert.deepStrictEqual(splitStyle("size:0.3;background-color:white;"), {"css" : "background-color:white;", "size" : 0.3, "sizeText" : "size:0.3"});
+		assert.deepStrictEqual(splitStyle("color:red"), {"css" : "color:red", "size" : undefined, "sizeText" : undefined});
+		assert.ok(isNaN(splitStyle("size:big").size as number));
+		// css properties that end in "size" are not the size of the pane
+		assert.deepStrictEqual(splitStyle("font-size:12px;size:0.5"), {"css" : "font-size:12px", "size" : 0.5, "sizeText" : "size:0.5"});
+		assert.deepStrictEqual(splitStyle("font-size:12px;background-size:cover"), {"css" : "font-size:12px;background-size:cover", "size" : undefined, "sizeText" : undefined});
+		assert.deepStrictEqual(problemsOf({"left" : {"only" : "a", "style" : "font-size:12px"}, "right" : "b"}), []);
+	});
+
+	test('makes the paths of images absolute', () => {
+		let base:string = path.resolve("runs", "1");
+		let layout = {"row" : [{"type" : "image", "src" : "counts.png"}, {"tabs" : {"url" : {"type" : "image", "src" : "https://example.com/a.png"}, "text" : {"type" : "markdown", "text" : "counts.png"}}}], "style" : "color:red"};
+		assert.deepStrictEqual(resolveLayoutPaths(layout, base), {"row" : [{"type" : "image", "src" : path.join(base, "counts.png")}, {"tabs" : {"url" : {"type" : "image", "src" : "https://example.com/a.png"}, "text" : {"type" : "markdown", "text" : "counts.png"}}}], "style" : "color:red"});
+		// the layout that was passed in is not changed
+		assert.strictEqual(layout.row[0].src, "counts.png");
+	});
+});
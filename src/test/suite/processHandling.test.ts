@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { splitCommand, describeCommand, pipOf, runProcess, runCommand, succeeded, describeFailure, ProcessResult } from '../../processHandling';
+
+/**
+ * Makes how a process ended, for checking how it is described
+ * @param result : the fields that are not the defaults of a process that exited with code 0
+ * @returns how the process ended
+ */
+function ended(result:Partial<ProcessResult>):ProcessResult {
+	return {"code" : 0, "signal" : null, "stdout" : "", "stderr" : "", "timedOut" : false, ...result};
+}
+
+suite('processHandling', () => {
+	// a directory with a space in it, like "C:\Program Files", holding a file to stand in for an interpreter
+	let dir:string = "";
+	let python:string = "";
+	suiteSetup(async () => {
+		dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "ucq process "));
+		python = path.join(dir, "python");
+		await fs.promises.writeFile(python, "");
+	});
+	suiteTeardown(async () => {
+		await fs.promises.rm(dir, { recursive : true, force : true });
+	});
+
+	test('splits a command into the executable and its arguments', () => {
+		assert.deepStrictEqual(splitCommand("python3 -m pip"), ["python3", "-m", "pip"]);
+		assert.deepStrictEqual(splitCommand("  python  "), ["python"]);
+		assert.deepStrictEqual(splitCommand(""), []);
+	});
+
+	test('keeps quoted words together', () => {
+		assert.deepStrictEqual(splitCommand("\"C:\\Program Files\\Python\\python.exe\" -m pip"), ["C:\\Program Files\\Python\\python.exe", "-m", "pip"]);
+		assert.deepStrictEqual(splitCommand("\"/opt/my python/bin/python\" -c \"import sys\""), ["/opt/my python/bin/python", "-c", "import sys"]);
+	});
+
+	test('keeps unquoted paths with spaces that exist together', () => {
+		assert.deepStrictEqual(splitCommand(python), [python]);
+		assert.deepStrictEqual(splitCommand(`${python} -m pip`), [python, "-m", "pip"]);
+		// a path that does not exist can only be split on its spaces
+		assert.deepStrictEqual(splitCommand("/no such/python -m pip"), ["/no", "such/python", "-m", "pip"]);
+	});
+
+	test('describes commands the way they would be typed', () => {
+		assert.strictEqual(describeCommand(`${python} -m pip`, ["install", "qiskit==0.39.0"]), `"${python}" -m pip install qiskit==0.39.0`);
+		assert.strictEqual(describeCommand("python3", ["-c", "print(1)"]), "python3 -c print(1)");
+	});
+
+	test('gets pip of an interpreter', () => {
+		assert.strictEqual(pipOf("python3"), "python3 -m pip");
+		assert.strictEqual(pipOf(python), `"${python}" -m pip`);
+		assert.strictEqual(pipOf(`"${python}"`), `"${python}" -m pip`);
+		// pip of an interpreter can be split back into the interpreter
+		assert.deepStrictEqual(splitCommand(pipOf(python)), [python, "-m", "pip"]);
+	});
+
+	test('runs processes without a shell', async () => {
+		let result:ProcessResult = await runProcess(process.execPath, ["-e", "process.stdout.write(process.argv[1])", "a \"quoted\" & <argument>"]);
+		assert.ok(succeeded(result), describeFailure(result));
+		assert.strictEqual(result.stdout, "a \"quoted\" & <argument>");
+	});
+
+	test('reports processes that fail', async () => {
+		let failed:ProcessResult = await runProcess(process.execPath, ["-e", "console.error('first\\nlast'); process.exit(3)"]);
+		assert.ok(!(succeeded(failed)));
+		assert.strictEqual(describeFailure(failed), "exited with code 3: last");
+		let missing:ProcessResult = await runProcess(path.join(dir, "missing"), []);
+		assert.ok(!(succeeded(missing)));
+		assert.ok(describeFailure(missing).startsWith("could not be started"), describeFailure(missing));
+		let empty:ProcessResult = await runCommand("", []);
+		assert.strictEqual(empty.error, "the command is empty");
+	});
+
+	test('stops processes that run too long', async () => {
+		let result:ProcessResult = await runProcess(process.execPath, ["-e", "setTimeout(() => {}, 10000)"], { timeout : 0.5 });
+		assert.ok(result.timedOut);
+		assert.ok(!(succeeded(result)));
+		assert.strictEqual(describeFailure(result), "ran too long and was stopped");
+	});
+
+	test('describes how a process ended', () => {
+		assert.strictEqual(describeFailure(ended({"code" : 1})), "exited with code 1");
+		assert.strictEqual(describeFailure(ended({"code" : null, "signal" : "SIGKILL"})), "was killed by SIGKILL");
+		assert.strictEqual(describeFailure(ended({"code" : 1, "stderr" : "ERROR: No matching distribution found for qiskit\r\n"})), "exited with code 1: ERROR: No matching distribution found for qiskit");
+	});
+});
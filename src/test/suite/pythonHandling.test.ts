@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Config, UserConfig } from '../../config';
+import { getPipSourceArgs } from '../../pythonHandling';
+
+/**
+ * Makes a configuration with install settings, without reading the settings
+ * @param values : the install settings that are not the defaults
+ * @param vendoredWheelsDir : directory of the wheels shipped with the extension
+ * @returns the configuration
+ */
+function configOf(values:Partial<UserConfig>, vendoredWheelsDir:string=""):Config {
+	return {"userConfig" : Object.assign(new UserConfig(undefined), values), "vendoredWheelsDir" : vendoredWheelsDir} as Config;
+}
+
+suite('pythonHandling', () => {
+	let dir:string = "";
+	suiteSetup(async () => {
+		dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "ucq-wheels-"));
+	});
+	suiteTeardown(async () => {
+		await fs.promises.rm(dir, { recursive : true, force : true });
+	});
+
+	test('installs from the default index without install settings', () => {
+		assert.deepStrictEqual(getPipSourceArgs(configOf({})), []);
+	});
+
+	test('installs from mirrors', () => {
+		assert.deepStrictEqual(getPipSourceArgs(configOf({"pipIndexUrl" : "https://mirror/simple", "pipExtraIndexUrls" : ["https://a/simple", "https://b/simple"]})), [
+			"--index-url", "https://mirror/simple", "--extra-index-url", "https://a/simple", "--extra-index-url", "https://b/simple"
+		]);
+	});
+
+	test('installs only from a wheelhouse without an index', () => {
+		assert.deepStrictEqual(getPipSourceArgs(configOf({"wheelhouse" : "/wheels"})), ["--no-index", "--find-links", "/wheels"]);
+		// with an index the wheelhouse is one more place to look
+		assert.deepStrictEqual(getPipSourceArgs(configOf({"wheelhouse" : "/wheels", "pipIndexUrl" : "https://mirror/simple"})), [
+			"--index-url", "https://mirror/simple", "--find-links", "/wheels"
+		]);
+	});
+
+	test('installs only from the shipped wheels', async () => {
+		assert.throws(() => getPipSourceArgs(configOf({"useVendoredWheels" : true}, dir)), /there are no wheels in/);
+		await fs.promises.writeFile(path.join(dir, "U_Cincy_quantum_tools-0.1.4-py3-none-any.whl"), "");
+		assert.deepStrictEqual(getPipSourceArgs(configOf({"useVendoredWheels" : true, "pipIndexUrl" : "https://mirror/simple", "wheelhouse" : "/wheels"}, dir)), [
+			"--no-index", "--find-links", dir, "--find-links", "/wheels"
+		]);
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { Config } from '../../config';
+import { RunManager, RunJob } from '../../queueHandling';
+
+/**
+ * Makes a run that records when it starts and only ends when told to
+ * @param name : name of the run
+ * @param started : the names of the runs that started, in order
+ * @returns the run, a function that ends it, and the token it was given once it starts
+ */
+function jobOf(name:string, started:string[]):{"job" : RunJob, "finish" : () => void, "token" : () => vscode.CancellationToken|undefined} {
+	let finish:() => void = () => {};
+	let token:vscode.CancellationToken|undefined = undefined;
+	let job:RunJob = {"name" : name, "task" : (given) => {
+		started.push(name);
+		token = given;
+		return new Promise<void>((resolve) => { finish = resolve; });
+	}};
+	return {"job" : job, "finish" : () => finish(), "token" : () => token};
+}
+
+suite('queueHandling', () => {
+	let count:number = 0;
+	let manager:RunManager;
+	setup(() => {
+		// a new workspace folder for every test so they do not share a manager
+		manager = RunManager.get({"workspacePath" : `/workspace${count++}`} as Config);
+	});
+	teardown(() => {
+		manager.dispose();
+	});
+
+	test('gives each workspace folder its own manager', () => {
+		assert.strictEqual(RunManager.get({"workspacePath" : `/workspace${count-1}`} as Config), manager);
+		let other:RunManager = RunManager.get({"workspacePath" : "/other"} as Config);
+		assert.notStrictEqual(other, manager);
+		other.dispose();
+	});
+
+	test('runs one job at a time and only keeps the newest queued one', async () => {
+		let started:string[] = [];
+		let first = jobOf("first", started);
+		let second = jobOf("second", started);
+		let third = jobOf("third", started);
+		let done:Promise<void> = manager.request(first.job);
+		assert.ok(manager.busy);
+		await manager.request(second.job);
+		await manager.request(third.job);
+		assert.deepStrictEqual(started, ["first"]);
+		first.finish();
+		// the third run starts once the first is done, the second was out of date
+		await new Promise<void>((resolve) => setImmediate(resolve));
+		assert.deepStrictEqual(started, ["first", "third"]);
+		third.finish();
+		await done;
+		assert.ok(!(manager.busy));
+		assert.deepStrictEqual(started, ["first", "third"]);
+	});
+
+	test('stops the run that is going and drops the queued one', async () => {
+		let started:string[] = [];
+		let first = jobOf("first", started);
+		let second = jobOf("second", started);
+		let done:Promise<void> = manager.request(first.job);
+		await manager.request(second.job);
+		assert.ok(manager.stop());
+		assert.ok(first.token()?.isCancellationRequested);
+		first.finish();
+		await done;
+		assert.deepStrictEqual(started, ["first"]);
+		assert.ok(!(manager.stop()));
+	});
+
+	test('does the last run again', async () => {
+		let started:string[] = [];
+		let runs:number = 0;
+		let job:RunJob = {"name" : "main.py", "task" : async () => { started.push(`run ${++runs}`); }};
+		await manager.rerun();
+		assert.deepStrictEqual(started, []);
+		await manager.request(job);
+		await manager.rerun();
+		assert.deepStrictEqual(started, ["run 1", "run 2"]);
+	});
+
+	test('keeps going after a run fails', async () => {
+		let started:string[] = [];
+		await manager.request({"name" : "failing", "task" : async () => { started.push("failing"); throw new Error("failed"); }});
+		await manager.request({"name" : "next", "task" : async () => { started.push("next"); }});
+		assert.deepStrictEqual(started, ["failing", "next"]);
+	});
+});
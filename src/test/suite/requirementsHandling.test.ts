@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { parseRequirements, diffRequirements, formatRequirementChange, Requirement } from '../../requirementsHandling';
+import { RequiredPackage } from '../../versionHandling';
+
+// the packages this extension needs, like in the config
+const requiredPackages:RequiredPackage[] = [{"name" : "qiskit", "range" : ">=0.37"}, {"name" : "matplotlib", "range" : ">=3.3"}];
+
+suite('requirementsHandling', () => {
+	test('reads packages, extras and versions', () => {
+		let parsed = parseRequirements([
+			"# packages for the workspace",
+			"qiskit[visualization] == 0.39.0  # pinned",
+			"",
+			"numpy==1.24.* \\",
+			"    ,!=1.24.1",
+			"Pillow==9.4.0"
+		].join("\r\n"), requiredPackages);
+		assert.deepStrictEqual(parsed.requirements, [
+			{"name" : "qiskit", "extras" : "[visualization]", "range" : "==0.39.0", "line" : 2},
+			{"name" : "numpy", "extras" : "", "range" : "==1.24.*,!=1.24.1", "line" : 4},
+			{"name" : "Pillow", "extras" : "", "range" : "==9.4.0", "line" : 6}
+		]);
+		// a wildcard does not pin one version
+		assert.deepStrictEqual(parsed.warnings.map((warning) => warning.slice(0, warning.indexOf(":"))), ["line 4"]);
+	});
+
+	test('warns about entries that are not pinned', () => {
+		let parsed = parseRequirements("scipy\nmatplotlib>=3.5", requiredPackages);
+		assert.deepStrictEqual(parsed.requirements.map((requirement) => requirement.name), ["scipy", "matplotlib"]);
+		assert.strictEqual(parsed.warnings.length, 2);
+		assert.ok(parsed.warnings.every((warning) => warning.indexOf("is not pinned") !== -1));
+	});
+
+	test('skips entries pip would read differently', () => {
+		let skipped:string[] = [
+			"--index-url https://example.com/simple",
+			"-r other.txt",
+			"git+https://github.com/Qiskit/qiskit.git",
+			"mypackage @ https://example.com/mypackage.whl",
+			"./local/package",
+			"numpy==1.24.0; python_version < \"3.9\"",
+			"numpy=>1.0",
+			"qiskit==0.36.0"
+		];
+		let parsed = parseRequirements(skipped.join("\n"), requiredPackages);
+		assert.deepStrictEqual(parsed.requirements, []);
+		assert.strictEqual(parsed.warnings.length, skipped.length);
+		assert.ok(parsed.warnings.every((warning) => warning.endsWith("it was skipped")));
+		assert.ok(parsed.warnings[7].indexOf("qiskit>=0.37") !== -1, parsed.warnings[7]);
+	});
+
+	test('skips the second entry of a package', () => {
+		let parsed = parseRequirements("Pillow==9.4.0\npillow==9.5.0", requiredPackages);
+		assert.deepStrictEqual(parsed.requirements.map((requirement) => requirement.range), ["==9.4.0"]);
+		assert.ok(parsed.warnings[0].startsWith("line 2:"), parsed.warnings[0]);
+	});
+
+	test('finds what pip has to change', () => {
+		let requirements:Requirement[] = parseRequirements("qiskit==0.39.0\nnumpy==1.24.0\nscipy==1.10.0\npillow==9.4.0", requiredPackages).requirements;
+		let changes = diffRequirements(requirements, {"qiskit" : "0.37.0", "numpy" : "1.25.0", "scipy" : undefined, "pillow" : "9.4.0"});
+		assert.deepStrictEqual(changes.map((change) => [change.requirement.name, change.action, change.installed]), [
+			["qiskit", "upgrade", "0.37.0"],
+			["numpy", "downgrade", "1.25.0"],
+			["scipy", "install", undefined]
+		]);
+		assert.deepStrictEqual(changes.map(formatRequirementChange), [
+			"~ qiskit 0.37.0 -> ==0.39.0 (upgrade)",
+			"~ numpy 1.25.0 -> ==1.24.0 (downgrade)",
+			"+ scipy==1.10.0"
+		]);
+	});
+
+	test('shows the extras of packages to install', () => {
+		let requirements:Requirement[] = parseRequirements("qiskit[visualization]==0.39.0", requiredPackages).requirements;
+		assert.deepStrictEqual(diffRequirements(requirements, {"qiskit" : undefined}).map(formatRequirementChange), ["+ qiskit[visualization]==0.39.0"]);
+	});
+});
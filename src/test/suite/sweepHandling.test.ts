@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Config } from '../../config';
+import { getSweepPoints, getSweepEnv, getSweepDefinition } from '../../sweepHandling';
+
+suite('sweepHandling', () => {
+	test('gets every combination of the parameters', () => {
+		assert.deepStrictEqual(getSweepPoints({"parameters" : {"theta" : [0, 1.5], "n" : [2, 3, "all"]}}), [
+			{"theta" : 0, "n" : 2}, {"theta" : 0, "n" : 3}, {"theta" : 0, "n" : "all"},
+			{"theta" : 1.5, "n" : 2}, {"theta" : 1.5, "n" : 3}, {"theta" : 1.5, "n" : "all"}
+		]);
+		assert.deepStrictEqual(getSweepPoints({"parameters" : {"theta" : [0.5]}}), [{"theta" : 0.5}]);
+	});
+
+	test('passes a combination to python in environment variables', () => {
+		let env = getSweepEnv({"theta" : 0.785, "backend" : "aer"});
+		assert.deepStrictEqual(Object.keys(env).sort(), ["UCQ_PARAMS", "UCQ_PARAM_backend", "UCQ_PARAM_theta"]);
+		assert.deepStrictEqual(JSON.parse(env["UCQ_PARAMS"] as string), {"theta" : 0.785, "backend" : "aer"});
+		assert.strictEqual(env["UCQ_PARAM_theta"], "0.785");
+		assert.strictEqual(env["UCQ_PARAM_backend"], "aer");
+	});
+
+	suite('reading the sweep file', () => {
+		let dir:string = "";
+		let config = {} as Config;
+		suiteSetup(async () => {
+			dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "ucq-sweep-"));
+			config = {"sweepFile" : path.join(dir, "sweep.json")} as Config;
+		});
+		suiteTeardown(async () => {
+			await fs.promises.rm(dir, { recursive : true, force : true });
+		});
+
+		test('reads a valid sweep', async () => {
+			await fs.promises.writeFile(config.sweepFile, JSON.stringify({"parameters" : {"theta" : [0, 1]}, "metric" : "11"}));
+			assert.deepStrictEqual(await getSweepDefinition(config), {"parameters" : {"theta" : [0, 1]}, "metric" : "11"});
+		});
+
+		test('rejects sweeps that can not be run', async () => {
+			let invalid:[any, RegExp][] = [
+				[{}, /must have "parameters"/],
+				[{"parameters" : {}}, /at least one parameter/],
+				[{"parameters" : {"2theta" : [0]}}, /valid variable name/],
+				[{"parameters" : {"theta" : []}}, /list of numbers or strings/],
+				[{"parameters" : {"theta" : [true]}}, /list of numbers or strings/],
+				[{"parameters" : {"theta" : [0]}, "metric" : 11}, /must be a bitstring/]
+			];
+			for (let [definition, message] of invalid) {
+				await fs.promises.writeFile(config.sweepFile, JSON.stringify(definition));
+				await assert.rejects(getSweepDefinition(config), message);
+			}
+		});
+	});
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { parseVersion, compareVersions, satisfies, checkRange, checkRequiredPackage, normalizePackageName, Version } from '../../versionHandling';
+
+/**
+ * Parses a version that is known to be valid
+ * @param text : the version
+ * @returns the parsed version
+ */
+function v(text:string):Version {
+	let version:Version|undefined = parseVersion(text);
+	assert.ok(version !== undefined, `"${text}" should be a valid version`);
+	return version as Version;
+}
+
+suite('versionHandling', () => {
+	test('parses the spellings pip accepts', () => {
+		assert.deepStrictEqual(v("1.0.0rc1"), {"epoch" : 0, "release" : [1, 0, 0], "pre" : ["rc", 1]});
+		assert.deepStrictEqual(v("v2!1.2-post3.dev4+Ubuntu-1"), {"epoch" : 2, "release" : [1, 2], "post" : 3, "dev" : 4, "local" : "ubuntu.1"});
+		assert.deepStrictEqual(v("1.0alpha").pre, ["a", 0]);
+		assert.strictEqual(parseVersion("not a version"), undefined);
+	});
+
+	test('orders versions like PEP 440', () => {
+		let ordered:string[] = ["0.1.4", "0.1.10", "1.0.dev1", "1.0a1", "1.0b2", "1.0rc1", "1.0", "1.0+local", "1.0.post1.dev1", "1.0.post1", "1.1", "1!0.1"];
+		for (let i = 0; i+1 < ordered.length; i++) {
+			assert.ok(compareVersions(v(ordered[i]), v(ordered[i+1])) < 0, `${ordered[i]} < ${ordered[i+1]}`);
+		}
+		assert.strictEqual(compareVersions(v("1.0"), v("1.0.0")), 0);
+	});
+
+	test('checks ranges', () => {
+		assert.ok(satisfies("0.39.0", ">=0.37,<1.0"));
+		assert.ok(!(satisfies("1.0.0", ">=0.37,<1.0")));
+		assert.ok(satisfies("1.4.9", "~=1.4.5"));
+		assert.ok(!(satisfies("1.5.0", "~=1.4.5")));
+		assert.ok(satisfies("1.2.7", "==1.2.*"));
+		assert.ok(!(satisfies("1.3", "==1.2.*")));
+		assert.ok(satisfies("1.3", "!=1.2.*"));
+		assert.ok(satisfies("anything", "") === false, "invalid versions never satisfy a range");
+	});
+
+	test('"<" does not allow pre-releases of its version', () => {
+		assert.ok(!(satisfies("1.0.0rc1", "<1.0")));
+		assert.ok(!(satisfies("1.0.dev1", "<1.0")));
+		assert.ok(!(satisfies("1.0.0rc1", ">=0.37,<1.0")));
+		assert.ok(satisfies("0.9rc1", "<1.0"));
+		assert.ok(satisfies("1.0a1", "<1.0rc1"));
+	});
+
+	test('">" does not allow post-releases or local versions of its version', () => {
+		assert.ok(!(satisfies("1.0.post1", ">1.0")));
+		assert.ok(!(satisfies("1.0+local", ">1.0")));
+		assert.ok(satisfies("1.0.post2", ">1.0.post1"));
+		assert.ok(satisfies("1.1", ">1.0"));
+		assert.ok(satisfies("1.1.post1", ">1.0"));
+	});
+
+	test('rejects clauses that are not valid', () => {
+		assert.throws(() => satisfies("1.0", "===1.0"), /"===".*not supported/);
+		assert.throws(() => satisfies("1.0", "1.0"), SyntaxError);
+		assert.strictEqual(checkRange(">=0.37,<1.0"), undefined);
+		assert.ok(checkRange(">=1.0,===2.0") !== undefined, "every clause is checked");
+	});
+
+	test('explains why a required package does not work', () => {
+		let required = {"name" : "qiskit", "range" : ">=0.37,<1.0"};
+		assert.strictEqual(checkRequiredPackage(required, "0.39.0"), undefined);
+		assert.strictEqual(checkRequiredPackage(required, undefined)?.problem, "missing");
+		assert.strictEqual(checkRequiredPackage(required, "0.36.1")?.problem, "old");
+		assert.strictEqual(checkRequiredPackage(required, "1.0.0")?.problem, "new");
+		assert.strictEqual(checkRequiredPackage(required, "1.0.0rc1")?.problem, "new");
+	});
+
+	test('normalizes package names like pip', () => {
+		assert.strictEqual(normalizePackageName("U_Cincy.quantum--tools"), "u-cincy-quantum-tools");
+	});
+});
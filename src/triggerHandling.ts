@@ -0,0 +1,132 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Config } from "./config";
+import { print, error, warn, delay } from "./src";
+
+/**
+ * Versions of the trigger protocol this extension understands, version 0 is the empty trigger file made by older
+ * versions of the python module
+ */
+export const supportedTriggerVersions:number[] = [0, 1];
+
+// declaring the types of the message in the trigger file (for ease of use later)
+export type TriggerError = {"type" : string, "message" : string, "traceback" : string};
+export type Counts = {[bitstring:string] : number};
+export type TriggerMessage = {
+    "version" : number,
+    "status" : "success" | "error",
+    // python file that was run
+    "file" : string,
+    // unix times (in seconds) of when the run started and ended
+    "start" : number,
+    "end" : number,
+    // files made by the run in the config directory
+    "outputs" : string[],
+    // only present if status is "error"
+    "error"? : TriggerError,
+    // measurement counts of each call to counts in the python file, optional
+    "counts"? : Counts[]
+};
+
+// how many times to try reading a trigger file that is still being written
+const readAttempts:number = 10;
+
+/**
+ * Checks that the inputted object is a valid trigger message
+ * @param obj : the parsed json from the trigger file
+ * @returns the object as a trigger message
+ */
+function validateTriggerMessage(obj:any):TriggerMessage {
+    if (typeof obj !== "object" || obj === null || Array.isArray(obj)) {
+        throw new SyntaxError(`trigger file must contain a json object`);
+    }
+    if (typeof obj.version !== "number" || !(Number.isInteger(obj.version))) {
+        throw new SyntaxError(`"version" of the trigger file must be an integer`);
+    }
+    if (supportedTriggerVersions.indexOf(obj.version) === -1) {
+        throw new SyntaxError(`trigger file was written with protocol version ${obj.version} but this extension only understands versions ${supportedTriggerVersions.join(", ")}, try updating this extension or the python module`);
+    }
+    if (obj.status !== "success" && obj.status !== "error") {
+        throw new SyntaxError(`"status" of the trigger file must be "success" or "error"`);
+    }
+    if (typeof obj.file !== "string") {
+        throw new SyntaxError(`"file" of the trigger file must be a string`);
+    }
+    if (typeof obj.start !== "number" || typeof obj.end !== "number") {
+        throw new SyntaxError(`"start" and "end" of the trigger file must be numbers`);
+    }
+    if (!(Array.isArray(obj.outputs)) || obj.outputs.some((val:any) => typeof val !== "string")) {
+        throw new SyntaxError(`"outputs" of the trigger file must be a list of strings`);
+    }
+    if (obj.status === "error") {
+        if (typeof obj.error !== "object" || obj.error === null
+            || typeof obj.error.type !== "string" || typeof obj.error.message !== "string" || typeof obj.error.traceback !== "string") {
+            throw new SyntaxError(`"error" of the trigger file must have "type", "message", and "traceback" strings when "status" is "error"`);
+        }
+    }
+    if (obj.counts !== undefined) {
+        if (!(Array.isArray(obj.counts)) || obj.counts.some((val:any) => typeof val !== "object" || val === null || Array.isArray(val)
+                                                                        || Object.values(val).some((num:any) => typeof num !== "number"))) {
+            throw new SyntaxError(`"counts" of the trigger file must be a list of objects that map bitstrings to numbers`);
+        }
+    }
+    return obj as TriggerMessage;
+}
+
+/**
+ * Reads the message from the trigger file and removes the file
+ * @param config : current configuration of the extension
+ * @param file : python file that was run, used to check that the trigger file came from it
+ * @returns the message in the trigger file
+ */
+export async function readTriggerFile(config:Config, file:string):Promise<TriggerMessage> {
+    let parsed:any = undefined;
+    let lastError:string = "";
+    // the file could still be being written when the watcher sees it, so trying a few times
+    for (let i = 0; i < readAttempts; i++) {
+        let source:string = "";
+        try { source = (await fs.promises.readFile(config.triggerFile)).toString().trim(); }
+        catch ( e ) { error(`caught error while reading trigger file: ${(e as Error).message}`); }
+
+        if (source.length) {
+            try {
+                parsed = JSON.parse(source);
+                break;
+            } catch ( e ) {
+                lastError = `trigger file is not valid json: ${(e as Error).message}`;
+            }
+        } else {
+            lastError = "";
+        }
+        await delay(50);
+    }
+
+    // removes the trigger file when done
+    try { await fs.promises.rm(config.triggerFile); }
+    catch ( e ) {
+        error(`caught error while removing trigger file: ${(e as Error).message.replace("\n", " ")}`);
+    }
+
+    let message:TriggerMessage;
+    if (parsed === undefined && !(lastError.length)) {
+        // older versions of the python module make an empty trigger file, this is treated as a success without any information
+        print("trigger file is empty, treating it as protocol version 0");
+        message = {"version" : 0, "status" : "success", "file" : file, "start" : 0, "end" : 0, "outputs" : []};
+    } else {
+        try {
+            if (parsed === undefined) { throw new SyntaxError(lastError); }
+            message = validateTriggerMessage(parsed);
+        } catch ( e ) {
+            error(`could not read the results of the run, ${(e as Error).message}`);
+            throw e;
+        }
+    }
+
+    if (path.resolve(message.file) !== path.resolve(file)) {
+        warn(`trigger file is from "${message.file}" but "${file}" was run, the viewer may show the wrong results`);
+    }
+    if (message.version > 0) {
+        print(`run of "${message.file}" ended with "${message.status}" after ${(message.end - message.start).toFixed(2)}s and made ${message.outputs.length} outputs`);
+    }
+    return message;
+}
@@ -0,0 +1,219 @@
+// declaring the types of a parsed version and a required python package (for ease of use later)
+export type Version = {
+    "epoch" : number,
+    "release" : number[],
+    // "a", "b", or "rc" and its number
+    "pre"? : [string, number],
+    "post"? : number,
+    "dev"? : number,
+    "local"? : string
+};
+export type RequiredPackage = {
+    // name of the package on the python index
+    "name" : string,
+    // versions of the package this extension works with, like ">=0.37,<1.0"
+    "range" : string
+};
+
+// the version pattern from PEP 440 (appendix B), it accepts every spelling pip does
+const versionPattern:RegExp = new RegExp(
+    "^\\s*v?(?:(?:(\\d+)!)?(\\d+(?:\\.\\d+)*)" +
+    "(?:[-_.]?(a|b|c|rc|alpha|beta|pre|preview)[-_.]?(\\d+)?)?" +
+    "(?:(?:-(\\d+))|(?:[-_.]?(post|rev|r)[-_.]?(\\d+)?))?" +
+    "(?:[-_.]?(dev)[-_.]?(\\d+)?)?)" +
+    "(?:\\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?\\s*$", "i");
+
+// the different spellings of each kind of pre-release
+const preSpellings:{[spelling:string] : string} = {"a" : "a", "alpha" : "a", "b" : "b", "beta" : "b", "c" : "rc", "rc" : "rc", "pre" : "rc", "preview" : "rc"};
+const preOrder:string[] = ["a", "b", "rc"];
+
+// an operator and a version, like ">=0.37"
+const clausePattern:RegExp = /^(~=|==|!=|<=|>=|<|>)\s*(.+)$/;
+
+/**
+ * Normalizes the name of a python package the way pip does, pip compares names without case and treats "-", "_", and "." the same
+ * @param name : the name, like "U_Cincy_quantum_tools"
+ * @returns the normalized name, like "u-cincy-quantum-tools"
+ */
+export function normalizePackageName(name:string):string {
+    return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+/**
+ * Parses a version the way pip does
+ * @param text : the version, like "0.1.10" or "1.0.0rc1"
+ * @returns the parsed version, undefined if it is not a valid version
+ */
+export function parseVersion(text:string):Version|undefined {
+    let match:RegExpMatchArray|null = text.match(versionPattern);
+    if (match === null) { return undefined; }
+    let toReturn:Version = {
+        "epoch" : match[1] !== undefined ? +match[1] : 0,
+        "release" : match[2].split(".").map((part) => +part)
+    };
+    if (match[3] !== undefined) { toReturn.pre = [preSpellings[match[3].toLowerCase()], +(match[4] ?? 0)]; }
+    if (match[5] !== undefined || match[6] !== undefined) { toReturn.post = +(match[5] ?? match[7] ?? 0); }
+    if (match[8] !== undefined) { toReturn.dev = +(match[9] ?? 0); }
+    if (match[10] !== undefined) { toReturn.local = match[10].toLowerCase().replace(/[-_]/g, "."); }
+    return toReturn;
+}
+
+/**
+ * Compares two numbers, Infinity and -Infinity stand in for missing parts of a version
+ * @param a : the first number
+ * @param b : the second number
+ * @returns negative if a is lower, 0 if they are the same, positive if a is higher
+ */
+function compareNumbers(a:number, b:number):number {
+    return a === b ? 0 : (a < b ? -1 : 1);
+}
+
+/**
+ * Compares two versions in the order of PEP 440, so "0.1.4" < "0.1.10" and "1.0.0.dev1" < "1.0.0rc1" < "1.0.0" < "1.0.0.post1"
+ * @param a : the first version
+ * @param b : the second version
+ * @returns negative if a is lower, 0 if they are the same, positive if a is higher
+ */
+export function compareVersions(a:Version, b:Version):number {
+    let order:number = compareNumbers(a.epoch, b.epoch);
+    if (order !== 0) { return order; }
+    // trailing zeros do not matter, "1.0" is "1.0.0"
+    for (let i = 0; i < Math.max(a.release.length, b.release.length); i++) {
+        order = compareNumbers(a.release[i] ?? 0, b.release[i] ?? 0);
+        if (order !== 0) { return order; }
+    }
+    // a dev release of a final release comes before its pre-releases, a final release comes after them
+    let preKey = (version:Version):number[] => {
+        if (version.pre !== undefined) { return [preOrder.indexOf(version.pre[0]), version.pre[1]]; }
+        return version.post === undefined && version.dev !== undefined ? [-Infinity, 0] : [Infinity, 0];
+    };
+    let preA:number[] = preKey(a);
+    let preB:number[] = preKey(b);
+    let keys:[number, number][] = [
+        [preA[0], preB[0]],
+        [preA[1], preB[1]],
+        [a.post ?? -Infinity, b.post ?? -Infinity],
+        [a.dev ?? Infinity, b.dev ?? Infinity]
+    ];
+    for (let [first, second] of keys) {
+        order = compareNumbers(first, second);
+        if (order !== 0) { return order; }
+    }
+    // a local version comes after the same version without one
+    if (a.local === undefined || b.local === undefined) { return compareNumbers(a.local === undefined ? 0 : 1, b.local === undefined ? 0 : 1); }
+    return a.local.localeCompare(b.local, undefined, { numeric : true });
+}
+
+/**
+ * Checks if a version is a pre-release, dev releases are pre-releases too
+ * @param version : the version
+ * @returns whether it is a pre-release
+ */
+function isPreRelease(version:Version):boolean {
+    return version.pre !== undefined || version.dev !== undefined;
+}
+
+/**
+ * Checks if two versions are the same release, like "1.0rc1" and "1.0.post1", everything after the release is ignored
+ * @param a : the first version
+ * @param b : the second version
+ * @returns whether they have the same epoch and release
+ */
+function sameRelease(a:Version, b:Version):boolean {
+    return compareVersions({"epoch" : a.epoch, "release" : a.release}, {"epoch" : b.epoch, "release" : b.release}) === 0;
+}
+
+/**
+ * Checks a version against one clause of a range, like ">=0.37" or "~=3.8" or "==1.*"
+ * @param version : the version
+ * @param clause : the clause
+ * @returns whether the version is in the clause
+ */
+function matchesClause(version:Version, clause:string):boolean {
+    let match:RegExpMatchArray|null = clause.trim().match(clausePattern);
+    if (match === null) { throw new SyntaxError(`"${clause.trim()}" is not a version clause like ">=1.0"`); }
+    let operator:string = match[1];
+    let text:string = match[2].trim();
+    // "===" compares the text of the version instead of the version, it is not supported
+    if (text.startsWith("=")) { throw new SyntaxError(`"${clause.trim()}" uses "===", which is not supported, use "==" instead`); }
+    // "==1.2.*" and "!=1.2.*" match the release prefix only
+    if ((operator === "==" || operator === "!=") && text.endsWith(".*")) {
+        let prefix:Version|undefined = parseVersion(text.slice(0, -2));
+        if (prefix === undefined) { throw new SyntaxError(`"${text}" is not a valid version`); }
+        let matches:boolean = version.epoch === prefix.epoch && prefix.release.every((part, i) => (version.release[i] ?? 0) === part);
+        return operator === "==" ? matches : !(matches);
+    }
+    let other:Version|undefined = parseVersion(text);
+    if (other === undefined) { throw new SyntaxError(`"${text}" is not a valid version`); }
+    let order:number = compareVersions(version, other);
+    switch (operator) {
+        // "<1.0" does not allow the pre-releases of 1.0 (like "1.0rc1") unless it is a pre-release itself
+        case "<": return order < 0 && !(isPreRelease(version) && !(isPreRelease(other)) && sameRelease(version, other));
+        case "<=": return order <= 0;
+        // ">1.0" does not allow the post-releases (like "1.0.post1") of 1.0 unless it is a post-release itself, or its local versions
+        case ">": return order > 0 && !(sameRelease(version, other) && ((version.post !== undefined && other.post === undefined) || version.local !== undefined));
+        case ">=": return order >= 0;
+        case "!=": return order !== 0;
+        case "==": return order === 0;
+        // "~=1.4.5" is ">=1.4.5,==1.4.*"
+        default: return order >= 0 && other.release.slice(0, -1).every((part, i) => (version.release[i] ?? 0) === part);
+    }
+}
+
+/**
+ * Checks a version against a range, like ">=0.37,<1.0"
+ * @param version : the version
+ * @param range : the range, clauses are separated by commas and all of them have to match
+ * @returns whether the version is in the range
+ */
+export function satisfies(version:string|Version, range:string):boolean {
+    let parsed:Version|undefined = typeof version === "string" ? parseVersion(version) : version;
+    if (parsed === undefined) { return false; }
+    return range.split(",").filter((clause) => clause.trim().length).every((clause) => matchesClause(parsed as Version, clause));
+}
+
+/**
+ * Checks that a range is written correctly, every clause is checked and not only the ones before the first that fails
+ * @param range : the range, like ">=0.37,<1.0"
+ * @returns why the range is not valid, undefined if it is
+ */
+export function checkRange(range:string):string|undefined {
+    let version:Version = {"epoch" : 0, "release" : [0]};
+    try {
+        range.split(",").filter((clause) => clause.trim().length).forEach((clause) => matchesClause(version, clause));
+    } catch ( e ) {
+        return (e as Error).message;
+    }
+    return undefined;
+}
+
+/**
+ * Explains why an installed version of a package is not in the range this extension works with
+ * @param required : the required package
+ * @param version : the installed version, undefined if it is not installed
+ * @returns "missing", "old", or "new" and a message for the user, undefined if the version is in the range
+ */
+export function checkRequiredPackage(required:RequiredPackage, version:string|undefined):{"problem" : "missing" | "old" | "new", "message" : string}|undefined {
+    if (version === undefined) {
+        return {"problem" : "missing", "message" : `"${required.name}" is not installed, this extension needs ${required.name}${required.range}`};
+    }
+    let parsedOrUndefined:Version|undefined = parseVersion(version);
+    if (parsedOrUndefined === undefined) {
+        return {"problem" : "old", "message" : `"${required.name}" has version "${version}" which is not a valid version, this extension needs ${required.name}${required.range}`};
+    }
+    let parsed:Version = parsedOrUndefined;
+    let clauses:string[] = required.range.split(",").filter((clause) => clause.trim().length);
+    let failed:string[] = clauses.filter((clause) => !(matchesClause(parsed, clause)));
+    if (!(failed.length)) { return undefined; }
+    // failing an upper bound means the version is too new, for the other operators it depends on which side of the bound it is
+    let tooNew:boolean = failed.some((clause) => {
+        let match:RegExpMatchArray = clause.trim().match(clausePattern) as RegExpMatchArray;
+        if (match[1].startsWith("<")) { return true; }
+        if (match[1].startsWith(">")) { return false; }
+        let bound:Version|undefined = parseVersion(match[2].trim().replace(/\.\*$/, ""));
+        return bound !== undefined && compareVersions({"epoch" : parsed.epoch, "release" : parsed.release.slice(0, bound.release.length)}, bound) > 0;
+    });
+    return tooNew ?
+        {"problem" : "new", "message" : `"${required.name}" ${version} is too new for this extension, it works with ${required.name}${required.range}`} :
+        {"problem" : "old", "message" : `"${required.name}" ${version} is too old for this extension, it needs ${required.name}${required.range}`};
+}
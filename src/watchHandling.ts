@@ -0,0 +1,78 @@
+import * as vscode from "vscode";
+import { RunManager } from "./queueHandling";
+import { print, info } from "./src";
+
+// milliseconds to wait after a save before running, so rapid saves only cause one run
+const debounceDelay:number = 500;
+
+/**
+ * Class for watch mode, re-executes the active python file whenever it is saved
+ */
+export class WatchMode {
+    /**
+     * Track the current watch mode. Only allow a single one to exist at a time.
+     */
+    public static current: WatchMode | undefined;
+    private _disposables: vscode.Disposable[] = [];
+    private _timer: NodeJS.Timeout | undefined;
+    private readonly _statusBarItem: vscode.StatusBarItem;
+
+    /**
+     * Turns watch mode on if it is off and off if it is on
+     */
+    public static toggle() {
+        if (WatchMode.current) {
+            WatchMode.current.dispose();
+            info("Stopped watching for saves");
+        } else {
+            WatchMode.current = new WatchMode();
+            info("Watching for saves, the active python file will be executed every time it is saved");
+        }
+    }
+
+    /**
+     * Constructs this class and starts listening for saves
+     */
+    private constructor() {
+        // showing the user that watch mode is on, clicking it turns watch mode off
+        this._statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+        this._statusBarItem.text = "$(eye) UCQ watching";
+        this._statusBarItem.tooltip = "UC Quantum Lab re-executes the active python file when it is saved, click to stop";
+        this._statusBarItem.command = "uc-quantum-lab.watch";
+        this._statusBarItem.show();
+        this._disposables.push(this._statusBarItem);
+
+        this._disposables.push(vscode.workspace.onDidSaveTextDocument((document) => this._onSave(document)));
+    }
+
+    /**
+     * Schedules a run when the python file in the active editor is saved
+     * @param document : document that was saved
+     */
+    private _onSave(document:vscode.TextDocument) {
+        if (!(document.fileName.endsWith(".py")) || vscode.window.activeTextEditor?.document !== document) { return; }
+        print(`"${document.fileName}" was saved, scheduling a run`);
+        // restarting the wait if another save happens before the run starts
+        if (this._timer !== undefined) { clearTimeout(this._timer); }
+        this._timer = setTimeout(() => {
+            this._timer = undefined;
+            // a newer save makes the run that is going out of date
+            let folder:vscode.WorkspaceFolder|undefined = vscode.workspace.getWorkspaceFolder(document.uri);
+            if (folder !== undefined) { RunManager.managers.get(folder.uri.fsPath)?.stop(); }
+            vscode.commands.executeCommand("uc-quantum-lab.execute");
+        }, debounceDelay);
+    }
+
+    /**
+     * destroys this class
+     */
+    public dispose() {
+        WatchMode.current = undefined;
+        if (this._timer !== undefined) { clearTimeout(this._timer); }
+
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) { x.dispose(); }
+        }
+    }
+}